@@ -1,14 +1,19 @@
 import React, { useState, useRef, useEffect } from "react";
-import { Send } from "lucide-react";
+import { Quote, Send, Square, X } from "lucide-react";
 import { Button } from "../ui/Button";
 import { CHAT_CONFIG, UI_MESSAGES } from "../../utils/constants";
 import { cn } from "../../utils/cn";
+import type { SelectedPassage } from "../../types";
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
   isLoading: boolean;
   disabled?: boolean;
   placeholder?: string;
+  onStop?: () => void;
+  // Passage the next question will be asked about
+  quotedPassage?: SelectedPassage | null;
+  onClearQuote?: () => void;
 }
 
 const ChatInput: React.FC<ChatInputProps> = ({
@@ -16,6 +21,9 @@ const ChatInput: React.FC<ChatInputProps> = ({
   isLoading,
   disabled = false,
   placeholder = UI_MESSAGES.CHAT.PLACEHOLDER,
+  onStop,
+  quotedPassage = null,
+  onClearQuote,
 }) => {
   const [message, setMessage] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -42,6 +50,13 @@ const ChatInput: React.FC<ChatInputProps> = ({
     }
   };
 
+  // Let the user type their question right after quoting a passage
+  useEffect(() => {
+    if (quotedPassage) {
+      textareaRef.current?.focus();
+    }
+  }, [quotedPassage]);
+
   // Auto-resize textarea
   useEffect(() => {
     const textarea = textareaRef.current;
@@ -56,6 +71,27 @@ const ChatInput: React.FC<ChatInputProps> = ({
 
   return (
     <div className="border-t border-gray-200 bg-white p-4">
+      {quotedPassage && (
+        <div className="flex items-start gap-2 mb-3 px-3 py-2 text-xs text-gray-600 bg-gray-50 border-l-2 border-purple-400 rounded">
+          <Quote className="w-3 h-3 mt-0.5 flex-shrink-0 text-purple-500" />
+          <p className="flex-1 min-w-0 line-clamp-3">
+            {quotedPassage.text}
+            <span className="ml-1 text-gray-400">
+              (page {quotedPassage.page})
+            </span>
+          </p>
+          {onClearQuote && (
+            <button
+              type="button"
+              onClick={onClearQuote}
+              className="p-0.5 text-gray-400 bg-transparent rounded hover:text-gray-600"
+              title="Remove quote"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      )}
       <form onSubmit={handleSubmit} className="flex items-start space-x-3">
         <div className="flex-1">
           <textarea
@@ -90,16 +126,29 @@ const ChatInput: React.FC<ChatInputProps> = ({
           </div>
         </div>
 
-        <Button
-          type="submit"
-          variant="primary"
-          size="md"
-          disabled={!canSend}
-          isLoading={isLoading}
-          className="flex-shrink-0"
-        >
-          <Send className="w-4 h-4" />
-        </Button>
+        {isLoading && onStop ? (
+          <Button
+            type="button"
+            variant="outline"
+            size="md"
+            onClick={onStop}
+            className="flex-shrink-0"
+            title="Stop generating"
+          >
+            <Square className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            variant="primary"
+            size="md"
+            disabled={!canSend}
+            isLoading={isLoading}
+            className="flex-shrink-0"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        )}
       </form>
     </div>
   );
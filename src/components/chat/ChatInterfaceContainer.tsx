@@ -97,6 +97,8 @@ const ChatInterfaceContainer: React.FC<ChatInterfaceContainerProps> = ({
             {document.status === "uploading" && "Uploading document..."}
             {document.status === "processing" && "Processing document..."}
             {document.status === "error" && "Error processing document"}
+            {document.status === "unknown" &&
+              `Unrecognised document status "${document.backendStatus}"`}
           </p>
         </div>
       </div>
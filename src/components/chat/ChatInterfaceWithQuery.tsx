@@ -150,6 +150,8 @@ const ChatInterfaceWithQuery: React.FC<ChatInterfaceWithQueryProps> = ({
             {document.status === "uploading" && "Uploading document..."}
             {document.status === "processing" && "Processing document..."}
             {document.status === "error" && "Error processing document"}
+            {document.status === "unknown" &&
+              `Unrecognised document status "${document.backendStatus}"`}
           </p>
         </div>
       </div>
@@ -1,5 +1,9 @@
 import React from "react";
-import { Button } from "../ui/Button";
+import MarkdownContent from "./MarkdownContent";
+import CitationPreview from "./CitationPreview";
+import CitationVerificationBadge from "./CitationVerificationBadge";
+import MessageTrustIndicator from "./MessageTrustIndicator";
+import { useMessageVerificationQuery } from "../../hooks/useCitationsQueries";
 import {
   type ChatMessage as ChatMessageType,
   type Citation,
@@ -10,13 +14,26 @@ import { cn } from "../../utils/cn";
 interface ChatMessageProps {
   message: ChatMessageType;
   onCitationClick: (citation: Citation) => void;
+  isStreaming?: boolean;
+  // Check the answer's citations against their sources once it is complete
+  verifyCitations?: boolean;
 }
 
 const ChatMessage: React.FC<ChatMessageProps> = ({
   message,
   onCitationClick,
+  isStreaming = false,
+  verifyCitations = false,
 }) => {
   const isUser = message.role === "user";
+  const verificationQuery = useMessageVerificationQuery(
+    message,
+    verifyCitations && !isStreaming
+  );
+  const verifications = verificationQuery.data?.citations;
+  // Name the source on each chip when the answer draws on several documents
+  const citesMultipleDocuments =
+    new Set(message.citations?.map((citation) => citation.documentId)).size > 1;
 
   return (
     <div
@@ -53,23 +70,75 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
               isUser ? "bg-purple-600 text-white" : "bg-gray-100 text-gray-900"
             )}
           >
-            <p className="whitespace-pre-wrap">{message.content}</p>
+            {isUser ? (
+              <p className="whitespace-pre-wrap">{message.content}</p>
+            ) : (
+              <MarkdownContent
+                content={message.content}
+                citations={message.citations}
+                verifications={verifications}
+                onCitationClick={onCitationClick}
+              />
+            )}
+            {isStreaming && (
+              <span className="inline-block w-2 h-4 mt-1 bg-gray-400 animate-pulse" />
+            )}
 
-            {/* Citations */}
+            {/* Numbered sources, referred to by [n] markers in the answer */}
             {message.citations && message.citations.length > 0 && (
-              <div className="mt-3 flex flex-wrap gap-2">
-                {message.citations.map((citation) => (
-                  <Button
-                    key={citation.id}
-                    variant="citation"
-                    onClick={() => onCitationClick(citation)}
-                    className="bg-white/20 hover:bg-white/30 text-white border-white/30"
-                  >
-                    Page {citation.page}
-                  </Button>
+              <ol className="pt-2 mt-3 space-y-1 border-t border-gray-200">
+                {message.citations.map((citation, index) => (
+                  <li key={`${citation.id}-${index}`}>
+                    <CitationPreview
+                      citation={citation}
+                      number={index + 1}
+                      verification={verifications?.[citation.id]}
+                      className="block"
+                    >
+                      <button
+                        type="button"
+                        onClick={() => onCitationClick(citation)}
+                        className="flex items-start w-full gap-2 px-1 py-0.5 text-xs text-left text-gray-700 bg-transparent rounded hover:bg-gray-200"
+                      >
+                        <span className="flex-shrink-0 px-1 font-semibold text-purple-700 bg-purple-100 rounded">
+                          {index + 1}
+                        </span>
+                        <span className="min-w-0 flex-1">
+                          <span className="font-medium">
+                            {citesMultipleDocuments && citation.documentTitle
+                              ? `${citation.documentTitle} · p. ${citation.page}`
+                              : `Page ${citation.page}`}
+                          </span>
+                          {verifications?.[citation.id] && (
+                            <CitationVerificationBadge
+                              verification={verifications[citation.id]}
+                              className="ml-2"
+                            />
+                          )}
+                          {citation.text && (
+                            <span className="block text-gray-500 truncate">
+                              {citation.text}
+                            </span>
+                          )}
+                        </span>
+                      </button>
+                    </CitationPreview>
+                  </li>
                 ))}
-              </div>
+              </ol>
             )}
+
+            {verifyCitations &&
+              message.citations &&
+              message.citations.length > 0 &&
+              !isStreaming && (
+                <MessageTrustIndicator
+                  citations={message.citations}
+                  verification={verificationQuery.data}
+                  isLoading={verificationQuery.isLoading}
+                  isError={verificationQuery.isError}
+                />
+              )}
           </div>
 
           {/* Timestamp */}
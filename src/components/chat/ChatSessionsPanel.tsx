@@ -0,0 +1,275 @@
+import React, { useState, useMemo } from "react";
+import { Check, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  useChatSessionsQuery,
+  useChatSessionStatsQuery,
+  useDeleteChatSessionMutation,
+  useRenameChatSessionMutation,
+} from "../../hooks/useChatQueries";
+import { useDocumentsQuery } from "../../hooks/useDocumentQueries";
+import { formatTimestamp } from "../../utils/helpers";
+import { cn } from "../../utils/cn";
+import type { ChatSession } from "../../types";
+
+interface ChatSessionsPanelProps {
+  documentId: string;
+  currentSessionId?: string;
+  onSelectSession: (session: ChatSession) => void;
+  onNewSession: () => void;
+  onSessionDeleted: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+type SessionScope = "document" | "all";
+
+const getSessionTitle = (session: ChatSession) =>
+  session.name || `Chat from ${session.createdAt.toLocaleDateString()}`;
+
+// Stats are fetched only for the session being looked at, so opening the
+// panel doesn't send a request per session; others show what the list has
+const SessionStats: React.FC<{ session: ChatSession; loadStats: boolean }> = ({
+  session,
+  loadStats,
+}) => {
+  const { data: stats, isLoading } = useChatSessionStatsQuery(
+    session.id,
+    loadStats
+  );
+
+  if (isLoading) {
+    return <Loader2 className="w-3 h-3 animate-spin text-gray-400" />;
+  }
+
+  const messageCount = stats?.message_count ?? session.messageCount ?? 0;
+  const lastActivity = stats?.last_activity
+    ? new Date(stats.last_activity)
+    : session.updatedAt;
+
+  return (
+    <div className="flex flex-wrap gap-x-3 text-xs text-gray-500">
+      <span>
+        {messageCount} {messageCount === 1 ? "message" : "messages"}
+      </span>
+      {stats?.total_tokens !== undefined && (
+        <span>{stats.total_tokens.toLocaleString()} tokens</span>
+      )}
+      <span>{formatTimestamp(lastActivity)}</span>
+    </div>
+  );
+};
+
+const ChatSessionsPanel: React.FC<ChatSessionsPanelProps> = ({
+  documentId,
+  currentSessionId,
+  onSelectSession,
+  onNewSession,
+  onSessionDeleted,
+  onClose,
+}) => {
+  const [scope, setScope] = useState<SessionScope>("document");
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(
+    null
+  );
+  const [draftName, setDraftName] = useState("");
+  const [hoveredSessionId, setHoveredSessionId] = useState<string | null>(
+    null
+  );
+
+  const sessionsQuery = useChatSessionsQuery();
+  const documentsQuery = useDocumentsQuery(scope === "all");
+  const renameMutation = useRenameChatSessionMutation();
+  const deleteMutation = useDeleteChatSessionMutation();
+
+  const documentNames = useMemo(
+    () => new Map((documentsQuery.data || []).map((d) => [d.id, d.name])),
+    [documentsQuery.data]
+  );
+
+  const sessions = useMemo(
+    () =>
+      (sessionsQuery.data || [])
+        .filter(
+          (session) => scope === "all" || session.documentId === documentId
+        )
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+    [sessionsQuery.data, scope, documentId]
+  );
+
+  const startEditing = (session: ChatSession) => {
+    setEditingSessionId(session.id);
+    setDraftName(getSessionTitle(session));
+  };
+
+  const submitRename = (sessionId: string) => {
+    const name = draftName.trim();
+    if (name) {
+      renameMutation.mutate({ sessionId, name });
+    }
+    setEditingSessionId(null);
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    const title = getSessionTitle(session);
+    if (!window.confirm(`Delete "${title}"? This can't be undone.`)) {
+      return;
+    }
+    deleteMutation.mutate(session.id, {
+      onSuccess: () => onSessionDeleted(session.id),
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-900">Chat history</h3>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={onNewSession}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-purple-700 bg-purple-50 rounded hover:bg-purple-100"
+          >
+            <Plus className="w-3 h-3" />
+            New chat
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-500 bg-transparent rounded hover:bg-gray-100"
+            title="Close history"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Scope toggle */}
+      <div className="flex gap-1 px-4 py-2 border-b border-gray-100">
+        {(["document", "all"] as const).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setScope(value)}
+            className={cn(
+              "px-2 py-1 text-xs rounded",
+              scope === value
+                ? "bg-gray-900 text-white"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+            )}
+          >
+            {value === "document" ? "This document" : "All documents"}
+          </button>
+        ))}
+      </div>
+
+      {/* Sessions */}
+      <div className="flex-1 overflow-y-auto">
+        {sessionsQuery.isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {!sessionsQuery.isLoading && sessions.length === 0 && (
+          <p className="px-4 py-8 text-sm text-center text-gray-500">
+            No previous conversations
+          </p>
+        )}
+
+        <ul className="divide-y divide-gray-100">
+          {sessions.map((session) => {
+            const isCurrent = session.id === currentSessionId;
+            const isEditing = session.id === editingSessionId;
+
+            return (
+              <li
+                key={session.id}
+                className={cn(
+                  "group px-4 py-3 cursor-pointer hover:bg-gray-50",
+                  isCurrent && "bg-purple-50 hover:bg-purple-50"
+                )}
+                onClick={() => !isEditing && onSelectSession(session)}
+                onMouseEnter={() => setHoveredSessionId(session.id)}
+                onMouseLeave={() => setHoveredSessionId(null)}
+              >
+                {isEditing ? (
+                  <form
+                    className="flex items-center gap-1"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitRename(session.id);
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Escape") setEditingSessionId(null);
+                      }}
+                      className="flex-1 px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded focus:border-purple-500 focus:outline-none"
+                    />
+                    <button
+                      type="submit"
+                      className="p-1 text-green-600 bg-transparent rounded hover:bg-green-50"
+                      title="Save name"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {getSessionTitle(session)}
+                      </p>
+                      {scope === "all" && (
+                        <p className="text-xs text-gray-400 truncate">
+                          {documentNames.get(session.documentId) ||
+                            "Unknown document"}
+                        </p>
+                      )}
+                      <SessionStats
+                        session={session}
+                        loadStats={
+                          isCurrent || session.id === hoveredSessionId
+                        }
+                      />
+                    </div>
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startEditing(session);
+                        }}
+                        className="p-1 text-gray-500 bg-transparent rounded hover:bg-gray-200"
+                        title="Rename"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(session);
+                        }}
+                        className="p-1 text-red-500 bg-transparent rounded hover:bg-red-50"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ChatSessionsPanel;
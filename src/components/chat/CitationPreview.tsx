@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from "react";
+import { FileText, Loader2 } from "lucide-react";
+import { useCitationContextQuery } from "../../hooks/useCitationsQueries";
+import { formatPercent } from "../../utils/helpers";
+import { isSyntheticCitationId } from "../../utils/typeAdapters";
+import { cn } from "../../utils/cn";
+import CitationVerificationBadge from "./CitationVerificationBadge";
+import type { Citation, CitationVerification } from "../../types";
+
+interface CitationPreviewProps {
+  citation: Citation;
+  // The citation's [n] number within its answer
+  number?: number;
+  verification?: CitationVerification;
+  children: React.ReactNode;
+  className?: string;
+}
+
+const LONG_PRESS_MS = 500;
+
+const formatCitationType = (type: string) =>
+  type.replace(/[_-]+/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+/**
+ * The card's body, mounted only while open so context is fetched on first
+ * hover and then served from the query cache
+ */
+const CitationCard: React.FC<
+  Pick<CitationPreviewProps, "citation" | "number" | "verification">
+> = ({ citation, number, verification }) => {
+  // Ids made up on the client can't be looked up on the server
+  const contextQuery = useCitationContextQuery(
+    citation.id,
+    !isSyntheticCitationId(citation.id)
+  );
+  const context = contextQuery.data;
+
+  const before = context?.before || citation.contextBefore;
+  const after = context?.after || citation.contextAfter;
+  // Some sources only return the combined passage
+  const fullContext = !before && !after ? context?.full_context : undefined;
+
+  return (
+    <span
+      role="tooltip"
+      className="absolute z-20 block p-3 mb-2 text-xs text-left text-gray-700 -translate-x-1/2 bg-white border border-gray-200 rounded-lg shadow-lg pointer-events-none w-80 bottom-full left-1/2"
+    >
+      <span className="flex items-center gap-1 font-medium text-gray-900">
+        <FileText className="flex-shrink-0 w-3 h-3 text-purple-600" />
+        <span className="truncate">
+          {number != null && `[${number}] `}
+          {citation.documentTitle ?? "Document"}
+        </span>
+      </span>
+      <span className="flex flex-wrap gap-x-2 mt-0.5 mb-2 text-gray-500">
+        <span>Page {citation.page}</span>
+        {citation.confidence != null && (
+          <span>{formatPercent(citation.confidence)} confidence</span>
+        )}
+        {citation.citationType && (
+          <span>{formatCitationType(citation.citationType)}</span>
+        )}
+      </span>
+
+      <span className="block leading-relaxed line-clamp-8">
+        {fullContext ? (
+          fullContext
+        ) : (
+          <>
+            {before && <span className="text-gray-500">…{before}</span>}
+            <mark className="px-0.5 text-gray-900 bg-yellow-100 rounded">
+              {citation.text || "No preview available."}
+            </mark>
+            {after && <span className="text-gray-500">{after}…</span>}
+          </>
+        )}
+      </span>
+
+      {verification && (
+        <span className="block pt-2 mt-2 border-t border-gray-100">
+          <span className="flex items-center gap-2">
+            <CitationVerificationBadge verification={verification} />
+            <span className="text-gray-500">
+              Accuracy {formatPercent(verification.accuracyScore)} · Relevance{" "}
+              {formatPercent(verification.relevanceScore)}
+            </span>
+          </span>
+          {verification.issues.length > 0 && (
+            <span className="block mt-1 text-gray-600">
+              {verification.issues.map((issue) => (
+                <span key={issue} className="block">
+                  • {issue}
+                </span>
+              ))}
+            </span>
+          )}
+        </span>
+      )}
+
+      {contextQuery.isLoading && !before && !after && (
+        <span className="flex items-center gap-1 mt-2 text-gray-400">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Loading context...
+        </span>
+      )}
+    </span>
+  );
+};
+
+/**
+ * Show a card with a citation's snippet in its surrounding context while the
+ * trigger is hovered or focused, or after a long press on touch screens
+ */
+const CitationPreview: React.FC<CitationPreviewProps> = ({
+  citation,
+  number,
+  verification,
+  children,
+  className,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLSpanElement>(null);
+  const longPressTimerRef = useRef<number | null>(null);
+  // Swallow the click that ends a long press so it doesn't open the source
+  const longPressedRef = useRef(false);
+
+  const cancelLongPress = () => {
+    if (longPressTimerRef.current !== null) {
+      window.clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType !== "touch") return;
+    longPressedRef.current = false;
+    cancelLongPress();
+    longPressTimerRef.current = window.setTimeout(() => {
+      longPressTimerRef.current = null;
+      longPressedRef.current = true;
+      setIsOpen(true);
+    }, LONG_PRESS_MS);
+  };
+
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (!longPressedRef.current) return;
+    longPressedRef.current = false;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  // A touch opened card stays until the user touches somewhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleOutsidePointer = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("pointerdown", handleOutsidePointer);
+    return () =>
+      document.removeEventListener("pointerdown", handleOutsidePointer);
+  }, [isOpen]);
+
+  return (
+    <span
+      ref={containerRef}
+      className={cn("relative", className)}
+      onMouseEnter={() => setIsOpen(true)}
+      onMouseLeave={() => setIsOpen(false)}
+      onFocus={() => setIsOpen(true)}
+      onBlur={() => setIsOpen(false)}
+      onPointerDown={handlePointerDown}
+      onPointerUp={cancelLongPress}
+      onPointerCancel={cancelLongPress}
+      onClickCapture={handleClickCapture}
+      onContextMenu={(e) => {
+        // Touch browsers open their own menu on a long press
+        if (longPressTimerRef.current !== null || longPressedRef.current) {
+          e.preventDefault();
+        }
+      }}
+    >
+      {children}
+      {isOpen && (
+        <CitationCard
+          citation={citation}
+          number={number}
+          verification={verification}
+        />
+      )}
+    </span>
+  );
+};
+
+export default CitationPreview;
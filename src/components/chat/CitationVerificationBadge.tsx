@@ -0,0 +1,59 @@
+import React from "react";
+import { ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+import { formatPercent } from "../../utils/helpers";
+import { cn } from "../../utils/cn";
+import type { CitationVerdict, CitationVerification } from "../../types";
+
+interface CitationVerificationBadgeProps {
+  verification: CitationVerification;
+  className?: string;
+}
+
+const VERDICT_STYLES: Record<
+  CitationVerdict,
+  { label: string; icon: typeof ShieldCheck; className: string }
+> = {
+  verified: {
+    label: "Verified",
+    icon: ShieldCheck,
+    className: "bg-green-100 text-green-800",
+  },
+  weak: {
+    label: "Weak",
+    icon: ShieldAlert,
+    className: "bg-amber-100 text-amber-800",
+  },
+  unsupported: {
+    label: "Unsupported",
+    icon: ShieldX,
+    className: "bg-red-100 text-red-800",
+  },
+};
+
+const CitationVerificationBadge: React.FC<CitationVerificationBadgeProps> = ({
+  verification,
+  className,
+}) => {
+  const { label, icon: Icon, className: verdictClassName } =
+    VERDICT_STYLES[verification.verdict];
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-medium whitespace-nowrap",
+        verdictClassName,
+        className
+      )}
+      title={[
+        `Accuracy ${formatPercent(verification.accuracyScore)}`,
+        `Relevance ${formatPercent(verification.relevanceScore)}`,
+        ...verification.issues,
+      ].join("\n")}
+    >
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  );
+};
+
+export default CitationVerificationBadge;
@@ -1,120 +1,183 @@
-import React, { useState, useRef, useEffect, useCallback } from "react";
-import { Loader2, FileText } from "lucide-react";
-import { useChatSearch } from "../../hooks/useAdvancedSearchQueries";
-import { getErrorDisplayMessage } from "../../utils/typeAdapters";
+import React, {
+  useState,
+  useRef,
+  useEffect,
+  useCallback,
+  useMemo,
+} from "react";
+import {
+  Loader2,
+  FileText,
+  History,
+  Library,
+  ShieldCheck,
+} from "lucide-react";
+import { useContextualSearchMutation } from "../../hooks/useAdvancedSearchQueries";
+import {
+  useChatStream,
+  useChatMessagesQuery,
+  useRefreshChatHistory,
+  useSendMessageMutation,
+} from "../../hooks/useChatQueries";
+import {
+  adaptSearchResultToCitation,
+  createSyntheticCitationId,
+  getErrorDisplayMessage,
+} from "../../utils/typeAdapters";
+import { CITATION_VALIDATION_CONFIG } from "../../utils/constants";
+import { cn } from "../../utils/cn";
 import ChatMessage from "./ChatMessage";
 import ChatInput from "./ChatInput";
+import ChatSessionsPanel from "./ChatSessionsPanel";
+import SessionSourcesPanel from "./SessionSourcesPanel";
 import type {
   Document,
   ChatSession,
   ChatMessage as ChatMessageType,
   Citation,
+  PassageAction,
+  PassageRequest,
+  SelectedPassage,
 } from "../../types";
 
 interface EnhancedChatInterfaceProps {
   document: Document;
   onCitationClick: (citation: Citation) => void;
   currentSession?: ChatSession | null;
+  // Sources to answer from; defaults to the open document
+  documentIds?: string[];
+  title?: string;
+  // Passage action coming from a text selection in the viewer
+  passageRequest?: PassageRequest | null;
+  onSelectSession?: (session: ChatSession) => void;
+  onNewSession?: () => void;
+  onSessionDeleted?: (sessionId: string) => void;
 }
 
+const PASSAGE_QUESTIONS: Record<Exclude<PassageAction, "ask">, string> = {
+  explain: "Explain this passage.",
+  summarize: "Summarize this passage.",
+  related: "Find passages related to this.",
+};
+
+// Quote a selected passage as a markdown blockquote
+const quotePassage = (passage: SelectedPassage) =>
+  `${passage.text
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n")}\n>\n> — Page ${passage.page}${
+    passage.documentTitle ? `, ${passage.documentTitle}` : ""
+  }`;
+
+const passageToCitation = (passage: SelectedPassage): Citation => ({
+  id: createSyntheticCitationId(passage.documentId, passage.page, passage.text),
+  page: passage.page,
+  text: passage.text,
+  documentId: passage.documentId,
+  documentTitle: passage.documentTitle,
+});
+
+const readAutoValidate = () => {
+  try {
+    return (
+      localStorage.getItem(
+        CITATION_VALIDATION_CONFIG.AUTO_VALIDATE_STORAGE_KEY
+      ) === "true"
+    );
+  } catch {
+    return false;
+  }
+};
+
 const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
   document,
   onCitationClick,
   currentSession = null,
+  documentIds,
+  title,
+  passageRequest = null,
+  onSelectSession,
+  onNewSession,
+  onSessionDeleted,
 }) => {
   const [messages, setMessages] = useState<ChatMessageType[]>([]);
+  // Panel shown in place of the conversation
+  const [openPanel, setOpenPanel] = useState<"history" | "sources" | null>(
+    null
+  );
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(
+    null
+  );
+  const [quotedPassage, setQuotedPassage] = useState<SelectedPassage | null>(
+    null
+  );
+  const [verifyCitations, setVerifyCitations] = useState(readAutoValidate);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const hydratedSessionRef = useRef<string | null>(null);
+  const handledPassageRequestRef = useRef<string | null>(null);
 
-  const chatSearchMutation = useChatSearch([document.id]);
-  const { mutate: searchForChat, isPending: isSearching } = chatSearchMutation;
+  const sourceIds = useMemo(
+    () => documentIds ?? [document.id],
+    [documentIds, document.id]
+  );
+  const isMultiSource = documentIds !== undefined;
 
-  React.useEffect(() => {
-    if (chatSearchMutation.isSuccess && chatSearchMutation.data) {
-      const synthesizedResponse = chatSearchMutation.data;
-      const aiMessage: ChatMessageType = {
-        id: crypto.randomUUID(),
-        role: "assistant",
-        content:
-          synthesizedResponse.synthesized_response ||
-          "I couldn't find relevant information in the document for your query.",
-        timestamp: new Date(),
-        citations: (() => {
-          if (!synthesizedResponse.citations) return [];
-
-          // Deduplicate citations by page number
-          const citationsByPage = new Map<
-            number,
-            {
-              id: string;
-              page: number;
-              text: string;
-              documentId: string;
-              snippets: string[];
-            }
-          >();
-
-          synthesizedResponse.citations.forEach((citation) => {
-            const pageNumber = citation.page_number || 1;
-            const snippet = citation.snippet || citation.document_title || "";
-
-            if (citationsByPage.has(pageNumber)) {
-              // Add snippet to existing page citation
-              const existing = citationsByPage.get(pageNumber)!;
-              if (snippet && !existing.snippets.includes(snippet)) {
-                existing.snippets.push(snippet);
-                existing.text = existing.snippets.join(" ... ");
-              }
-            } else {
-              // Create new page citation
-              citationsByPage.set(pageNumber, {
-                id: citation.id || `citation-page-${pageNumber}`,
-                page: pageNumber,
-                text: snippet,
-                documentId: citation.document_id,
-                snippets: snippet ? [snippet] : [],
-              });
-            }
-          });
+  const { mutateAsync: sendMessage, isPending: isSending } =
+    useSendMessageMutation();
+  const { startStream, stopStream, isStreaming } = useChatStream();
+  const storedMessagesQuery = useChatMessagesQuery(currentSession?.id || "");
+  const refreshChatHistory = useRefreshChatHistory();
+  const { mutateAsync: contextualSearch } = useContextualSearchMutation();
 
-          return Array.from(citationsByPage.values()).sort(
-            (a, b) => a.page - b.page
-          );
-        })(),
-      };
-      setMessages((prev) => [...prev, aiMessage]);
-      chatSearchMutation.reset();
-    }
+  // Pick up the turn the server stored while answering
+  const refreshHistory = useCallback(() => {
+    if (currentSession) refreshChatHistory(currentSession.id);
+  }, [currentSession, refreshChatHistory]);
 
-    if (chatSearchMutation.isError) {
-      const errorMessage: ChatMessageType = {
-        id: crypto.randomUUID(),
-        role: "assistant",
-        content: `Sorry, I encountered an error: ${getErrorDisplayMessage(
-          chatSearchMutation.error
-        )}`,
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
-      chatSearchMutation.reset();
+  const toggleVerifyCitations = useCallback(() => {
+    const enabled = !verifyCitations;
+    setVerifyCitations(enabled);
+    try {
+      localStorage.setItem(
+        CITATION_VALIDATION_CONFIG.AUTO_VALIDATE_STORAGE_KEY,
+        String(enabled)
+      );
+    } catch (error) {
+      // The setting still applies for this session
+      console.warn("⚠️ Failed to save citation verification setting:", error);
     }
-  }, [
-    chatSearchMutation.isSuccess,
-    chatSearchMutation.isError,
-    chatSearchMutation.data,
-    chatSearchMutation.error,
-    chatSearchMutation,
-  ]);
+  }, [verifyCitations]);
 
   // Auto-scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
-  // Clear messages when document changes
+  // Clear messages and stop any running answer when the session changes
   useEffect(() => {
+    stopStream();
     setMessages([]);
-  }, [document?.id]);
+    hydratedSessionRef.current = null;
+  }, [currentSession?.id, stopStream]);
+
+  // Hydrate the conversation once from the session's stored messages
+  useEffect(() => {
+    if (
+      !currentSession ||
+      !storedMessagesQuery.data ||
+      hydratedSessionRef.current === currentSession.id
+    ) {
+      return;
+    }
+
+    hydratedSessionRef.current = currentSession.id;
+    const storedMessages = storedMessagesQuery.data;
+    setMessages((prev) => [
+      ...storedMessages,
+      ...prev.filter((m) => !storedMessages.some((s) => s.id === m.id)),
+    ]);
+  }, [currentSession, storedMessagesQuery.data]);
 
   // Focus input when session is ready
   useEffect(() => {
@@ -123,25 +186,197 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
     }
   }, [currentSession]);
 
+  // Insert a message or patch it in place if it is already displayed
+  const upsertMessage = useCallback(
+    (id: string, patch: Partial<ChatMessageType>) => {
+      setMessages((prev) =>
+        prev.some((m) => m.id === id)
+          ? prev.map((m) => (m.id === id ? { ...m, ...patch } : m))
+          : [
+              ...prev,
+              {
+                id,
+                role: "assistant",
+                content: "",
+                timestamp: new Date(),
+                ...patch,
+              },
+            ]
+      );
+    },
+    []
+  );
+
+  // Look up passages related to a quoted selection so the answer is grounded
+  // in it; the selection itself always comes first
+  const groundPassage = useCallback(
+    async (query: string, passage: SelectedPassage): Promise<Citation[]> => {
+      const passageCitation = passageToCitation(passage);
+      try {
+        const response = await contextualSearch({
+          query,
+          context: {
+            selected_text: passage.text,
+            page_number: passage.page,
+            document_id: passage.documentId,
+            document_title: passage.documentTitle,
+          },
+          document_ids: sourceIds,
+          max_results: 5,
+        });
+        return [
+          passageCitation,
+          ...response.results.map(adaptSearchResultToCitation),
+        ];
+      } catch {
+        return [passageCitation];
+      }
+    },
+    [contextualSearch, sourceIds]
+  );
+
   const handleSendMessage = useCallback(
-    async (message: string) => {
-      if (!message.trim() || !currentSession || isSearching) return;
+    async (message: string, passage?: SelectedPassage) => {
+      if (
+        !message.trim() ||
+        !currentSession ||
+        sourceIds.length === 0 ||
+        isSending ||
+        isStreaming
+      )
+        return;
+
+      const content = passage
+        ? `${quotePassage(passage)}\n\n${message.trim()}`
+        : message.trim();
+      const grounding = passage
+        ? groundPassage(message.trim(), passage)
+        : Promise.resolve<Citation[]>([]);
 
       // Add user message
       const userMessage: ChatMessageType = {
         id: crypto.randomUUID(),
         role: "user",
-        content: message.trim(),
+        content,
         timestamp: new Date(),
       };
       setMessages((prev) => [...prev, userMessage]);
 
-      // Use universal synthesized response for comprehensive, single-answer analysis
-      searchForChat(message.trim());
+      // Stream the answer, rendering it as tokens arrive
+      const assistantMessageId = crypto.randomUUID();
+      setStreamingMessageId(assistantMessageId);
+
+      try {
+        const result = await startStream({
+          sessionId: currentSession.id,
+          content,
+          documentIds: sourceIds,
+          onToken: (_token, fullContent) =>
+            upsertMessage(assistantMessageId, { content: fullContent }),
+        });
+
+        if (result.status === "completed") {
+          const groundingCitations = await grounding;
+          const assistantMessage: ChatMessageType = {
+            id: assistantMessageId,
+            role: "assistant",
+            content:
+              result.message.content ||
+              "I couldn't find relevant information in the document for your query.",
+            timestamp: new Date(),
+            citations: [
+              ...(result.message.citations || []),
+              ...groundingCitations.filter(
+                (citation) =>
+                  !result.message.citations?.some((c) => c.id === citation.id)
+              ),
+            ],
+          };
+          upsertMessage(assistantMessageId, assistantMessage);
+          refreshHistory();
+        } else if (result.status === "aborted" && result.content) {
+          // The partial answer the user already saw stays on screen
+          refreshHistory();
+        } else if (result.status === "unavailable") {
+          // Without streaming, answer through the session's messages
+          // endpoint, which stores the turn like a streamed one
+          const [groundingCitations, turn] = await Promise.all([
+            grounding,
+            sendMessage({
+              sessionId: currentSession.id,
+              content,
+              documentIds: sourceIds,
+            }),
+          ]);
+          const answer = turn.find((m) => m.role === "assistant");
+          upsertMessage(assistantMessageId, {
+            content:
+              answer?.content ||
+              "I couldn't find relevant information in the document for your query.",
+            timestamp: new Date(),
+            citations: [
+              ...(answer?.citations || []),
+              ...groundingCitations.filter(
+                (citation) =>
+                  !answer?.citations?.some((c) => c.id === citation.id)
+              ),
+            ],
+          });
+        }
+      } catch (error) {
+        upsertMessage(assistantMessageId, {
+          content: `Sorry, I encountered an error: ${getErrorDisplayMessage(
+            error
+          )}`,
+        });
+      } finally {
+        setStreamingMessageId(null);
+      }
     },
-    [currentSession, searchForChat, isSearching]
+    [
+      currentSession,
+      sourceIds,
+      sendMessage,
+      isSending,
+      isStreaming,
+      startStream,
+      upsertMessage,
+      refreshHistory,
+      groundPassage,
+    ]
   );
 
+  const handleSubmitQuestion = useCallback(
+    (message: string) => {
+      handleSendMessage(message, quotedPassage ?? undefined);
+      setQuotedPassage(null);
+    },
+    [handleSendMessage, quotedPassage]
+  );
+
+  const isLoading = isSending || isStreaming;
+
+  // Act on a passage selected in the viewer once the chat is free
+  useEffect(() => {
+    if (
+      !passageRequest ||
+      handledPassageRequestRef.current === passageRequest.id ||
+      !currentSession ||
+      isLoading
+    ) {
+      return;
+    }
+
+    handledPassageRequestRef.current = passageRequest.id;
+    setOpenPanel(null);
+    const { action, passage } = passageRequest;
+    if (action === "ask") {
+      setQuotedPassage(passage);
+    } else {
+      handleSendMessage(PASSAGE_QUESTIONS[action], passage);
+    }
+  }, [passageRequest, currentSession, isLoading, handleSendMessage]);
+
   const handleCitationClick = useCallback(
     (citation: Citation) => {
       onCitationClick(citation);
@@ -149,65 +384,171 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
     [onCitationClick]
   );
 
-  const isLoading = isSearching;
+  // Keep the spinner until the first streamed token is on screen
+  const isWaitingForAnswer =
+    isSending ||
+    (isStreaming && !messages.some((m) => m.id === streamingMessageId));
 
   return (
     <div className="flex flex-col h-full bg-white">
       {/* Header */}
-      <div className="flex-shrink-0 px-4 py-3 border-b border-gray-200">
-        <h2 className="text-lg font-semibold text-gray-900">
-          Chat about {document.name}
-        </h2>
-        <p className="text-sm text-gray-600">
-          Ask questions and get answers with citations
-        </p>
+      <div className="flex-shrink-0 flex items-start justify-between gap-2 px-4 py-3 border-b border-gray-200">
+        <div className="min-w-0">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {title || `Chat about ${document.name}`}
+          </h2>
+          <p className="text-sm text-gray-600 truncate">
+            {currentSession?.name ||
+              "Ask questions and get answers with citations"}
+          </p>
+        </div>
+        <div className="flex flex-shrink-0 gap-1">
+          <button
+            type="button"
+            onClick={toggleVerifyCitations}
+            className={cn(
+              "p-2 rounded hover:bg-gray-100",
+              verifyCitations
+                ? "bg-green-50 text-green-700"
+                : "bg-transparent text-gray-600"
+            )}
+            title={
+              verifyCitations
+                ? "Citations are verified automatically"
+                : "Verify citations automatically"
+            }
+            aria-pressed={verifyCitations}
+          >
+            <ShieldCheck className="w-4 h-4" />
+          </button>
+          {currentSession && (
+            <button
+              type="button"
+              onClick={() =>
+                setOpenPanel((panel) =>
+                  panel === "sources" ? null : "sources"
+                )
+              }
+              className={cn(
+                "p-2 rounded text-gray-600 hover:bg-gray-100",
+                openPanel === "sources" ? "bg-gray-100" : "bg-transparent"
+              )}
+              title="Sources cited in this conversation"
+            >
+              <Library className="w-4 h-4" />
+            </button>
+          )}
+          {onSelectSession && (
+            <button
+              type="button"
+              onClick={() =>
+                setOpenPanel((panel) =>
+                  panel === "history" ? null : "history"
+                )
+              }
+              className={cn(
+                "p-2 rounded text-gray-600 hover:bg-gray-100",
+                openPanel === "history" ? "bg-gray-100" : "bg-transparent"
+              )}
+              title="Chat history"
+            >
+              <History className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 && (
-          <div className="text-center text-gray-500 py-8">
-            <FileText className="w-12 h-12 mx-auto mb-4 text-gray-300" />
-            <p className="text-lg font-medium mb-2">Start a conversation</p>
-            <p className="text-sm">
-              Ask questions about the document and get AI-powered answers with
-              citations.
-            </p>
-          </div>
-        )}
-
-        {messages.map((message) => (
-          <ChatMessage
-            key={message.id}
-            message={message}
+      {openPanel === "history" && onSelectSession ? (
+        <div className="flex-1 min-h-0">
+          <ChatSessionsPanel
+            documentId={document.id}
+            currentSessionId={currentSession?.id}
+            onSelectSession={(session) => {
+              onSelectSession(session);
+              setOpenPanel(null);
+            }}
+            onNewSession={() => {
+              onNewSession?.();
+              setOpenPanel(null);
+            }}
+            onSessionDeleted={(sessionId) => onSessionDeleted?.(sessionId)}
+            onClose={() => setOpenPanel(null)}
+          />
+        </div>
+      ) : openPanel === "sources" && currentSession ? (
+        <div className="flex-1 min-h-0">
+          <SessionSourcesPanel
+            sessionId={currentSession.id}
+            messages={messages}
             onCitationClick={handleCitationClick}
+            onClose={() => setOpenPanel(null)}
           />
-        ))}
-
-        {isLoading && (
-          <div className="flex gap-3 justify-start">
-            <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
-              <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />
-            </div>
-            <div className="bg-gray-100 rounded-lg px-4 py-2">
-              <div className="flex items-center gap-2 text-gray-600">
-                <Loader2 className="w-4 h-4 animate-spin" />
-                <span className="text-sm">Searching document...</span>
+        </div>
+      ) : (
+        <>
+          {/* Messages */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {messages.length === 0 && (
+              <div className="text-center text-gray-500 py-8">
+                <FileText className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                <p className="text-lg font-medium mb-2">Start a conversation</p>
+                <p className="text-sm">
+                  {isMultiSource
+                    ? "Ask questions across the selected sources and get AI-powered answers with citations."
+                    : "Ask questions about the document and get AI-powered answers with citations."}
+                </p>
               </div>
-            </div>
-          </div>
-        )}
+            )}
 
-        <div ref={messagesEndRef} />
-      </div>
+            {messages.map((message) => (
+              <ChatMessage
+                key={message.id}
+                message={message}
+                onCitationClick={handleCitationClick}
+                isStreaming={message.id === streamingMessageId}
+                verifyCitations={verifyCitations}
+              />
+            ))}
+
+            {isWaitingForAnswer && (
+              <div className="flex gap-3 justify-start">
+                <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
+                  <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />
+                </div>
+                <div className="bg-gray-100 rounded-lg px-4 py-2">
+                  <div className="flex items-center gap-2 text-gray-600">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span className="text-sm">
+                      {isMultiSource
+                        ? "Searching sources..."
+                        : "Searching document..."}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            )}
 
-      {/* Input */}
-      <ChatInput
-        onSendMessage={handleSendMessage}
-        isLoading={isLoading}
-        disabled={!currentSession}
-        placeholder="Ask a question about this document..."
-      />
+            <div ref={messagesEndRef} />
+          </div>
+
+          {/* Input */}
+          <ChatInput
+            onSendMessage={handleSubmitQuestion}
+            isLoading={isLoading}
+            disabled={!currentSession || sourceIds.length === 0}
+            placeholder={
+              isMultiSource
+                ? sourceIds.length === 0
+                  ? "Select at least one source to ask a question"
+                  : "Ask a question about the selected sources..."
+                : "Ask a question about this document..."
+            }
+            onStop={isStreaming ? stopStream : undefined}
+            quotedPassage={quotedPassage}
+            onClearQuote={() => setQuotedPassage(null)}
+          />
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,205 @@
+import React, { useMemo, useRef, useState } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import { Check, Copy } from "lucide-react";
+import "katex/dist/katex.min.css";
+import CitationPreview from "./CitationPreview";
+import {
+  CITATION_MARKER_PROPERTY,
+  remarkCitationMarkers,
+} from "../../utils/citationMarkers";
+import { cn } from "../../utils/cn";
+import type { Citation, CitationVerification } from "../../types";
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  // Sources that [n] markers in the content refer to
+  citations?: Citation[];
+  // Validation results keyed by citation id
+  verifications?: Record<string, CitationVerification>;
+  onCitationClick?: (citation: Citation) => void;
+}
+
+const COPIED_RESET_MS = 2000;
+const NO_CITATIONS: Citation[] = [];
+
+// Fenced code blocks are left alone when rewriting math delimiters
+const FENCED_CODE_PATTERN = /(```[\s\S]*?(?:```|$))/g;
+
+/**
+ * Models often write LaTeX as \[ ... \] and \( ... \), which remark-math does
+ * not understand, so rewrite them to $$ ... $$ and $ ... $
+ */
+const normalizeMathDelimiters = (content: string) =>
+  content
+    .split(FENCED_CODE_PATTERN)
+    .map((part) =>
+      part.startsWith("```")
+        ? part
+        : part
+            .replace(/\\\[([\s\S]*?)\\\]/g, (_, math) => `$$${math}$$`)
+            .replace(/\\\(([\s\S]*?)\\\)/g, (_, math) => `$${math}$`)
+    )
+    .join("");
+
+const CodeBlock: React.FC<React.ComponentPropsWithoutRef<"pre">> = ({
+  children,
+}) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const text = preRef.current?.textContent ?? "";
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    } catch (error) {
+      console.error("❌ Failed to copy code block:", error);
+    }
+  };
+
+  return (
+    <div className="relative my-2 group">
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute p-1 text-gray-300 transition-opacity bg-gray-700 rounded opacity-0 top-2 right-2 group-hover:opacity-100 focus:opacity-100 hover:text-white"
+        title={copied ? "Copied" : "Copy code"}
+      >
+        {copied ? (
+          <Check className="w-3.5 h-3.5" />
+        ) : (
+          <Copy className="w-3.5 h-3.5" />
+        )}
+      </button>
+      <pre
+        ref={preRef}
+        className="p-3 overflow-x-auto text-xs text-gray-100 bg-gray-900 rounded-md"
+      >
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const baseComponents: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-purple-700 underline"
+    >
+      {children}
+    </a>
+  ),
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="pl-5 my-2 list-disc">{children}</ul>,
+  ol: ({ children }) => <ol className="pl-5 my-2 list-decimal">{children}</ol>,
+  li: ({ children }) => <li className="my-0.5">{children}</li>,
+  h1: ({ children }) => (
+    <h1 className="mt-3 mb-2 text-base font-semibold">{children}</h1>
+  ),
+  h2: ({ children }) => (
+    <h2 className="mt-3 mb-2 text-base font-semibold">{children}</h2>
+  ),
+  h3: ({ children }) => <h3 className="mt-3 mb-1 font-semibold">{children}</h3>,
+  blockquote: ({ children }) => (
+    <blockquote className="pl-3 my-2 text-gray-700 border-l-4 border-gray-300">
+      {children}
+    </blockquote>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th
+      style={style}
+      className="px-2 py-1 font-semibold text-left bg-gray-200 border border-gray-300"
+    >
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="px-2 py-1 border border-gray-300">
+      {children}
+    </td>
+  ),
+  hr: () => <hr className="my-3 border-gray-300" />,
+};
+
+/**
+ * Render model output as GitHub-flavoured Markdown with LaTeX math. Raw HTML
+ * in the content is shown as text rather than rendered, and unsafe link
+ * protocols are dropped by react-markdown.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  className,
+  citations = NO_CITATIONS,
+  verifications,
+  onCitationClick,
+}) => {
+  const components = useMemo<Components>(
+    () => ({
+      ...baseComponents,
+      sup: ({ node, children }) => {
+        const number = Number(node?.properties?.[CITATION_MARKER_PROPERTY]);
+        const citation = citations[number - 1];
+        if (!citation) return <sup>{children}</sup>;
+
+        return (
+          <CitationPreview
+            citation={citation}
+            number={number}
+            verification={verifications?.[citation.id]}
+          >
+            <sup>
+              <button
+                type="button"
+                onClick={() => onCitationClick?.(citation)}
+                className="px-1 mx-0.5 text-[10px] font-semibold text-purple-700 bg-purple-100 rounded hover:bg-purple-200"
+                aria-label={`Source ${number}, page ${citation.page}`}
+              >
+                {number}
+              </button>
+            </sup>
+          </CitationPreview>
+        );
+      },
+    }),
+    [citations, verifications, onCitationClick]
+  );
+
+  return (
+    <div
+      className={cn(
+        "break-words",
+        // Inline code only; code blocks are styled by CodeBlock
+        "[&_:not(pre)>code]:px-1 [&_:not(pre)>code]:py-0.5 [&_:not(pre)>code]:text-[0.85em] [&_:not(pre)>code]:bg-gray-200 [&_:not(pre)>code]:rounded",
+        className
+      )}
+    >
+      <ReactMarkdown
+        remarkPlugins={[
+          remarkGfm,
+          remarkMath,
+          [remarkCitationMarkers, { count: citations.length }],
+        ]}
+        rehypePlugins={[[rehypeKatex, { throwOnError: false }]]}
+        components={components}
+      >
+        {normalizeMathDelimiters(content)}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,76 @@
+import React from "react";
+import { Loader2, ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+import { formatPercent } from "../../utils/helpers";
+import { cn } from "../../utils/cn";
+import type { Citation, MessageVerification } from "../../types";
+
+interface MessageTrustIndicatorProps {
+  citations: Citation[];
+  verification?: MessageVerification;
+  isLoading?: boolean;
+  isError?: boolean;
+}
+
+/**
+ * Summarise how well an answer's citations held up when checked against
+ * their sources
+ */
+const MessageTrustIndicator: React.FC<MessageTrustIndicatorProps> = ({
+  citations,
+  verification,
+  isLoading = false,
+  isError = false,
+}) => {
+  if (isLoading) {
+    return (
+      <p className="flex items-center gap-1 mt-2 text-xs text-gray-500">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Verifying citations...
+      </p>
+    );
+  }
+
+  if (isError) {
+    return (
+      <p className="mt-2 text-xs text-gray-500">Couldn't verify citations</p>
+    );
+  }
+
+  if (!verification) return null;
+
+  const verdicts = citations.map(
+    (citation) => verification.citations[citation.id]?.verdict
+  );
+  const verifiedCount = verdicts.filter((v) => v === "verified").length;
+  const unsupportedCount = verdicts.filter((v) => v === "unsupported").length;
+
+  const level =
+    verifiedCount === citations.length
+      ? "trusted"
+      : unsupportedCount * 2 > citations.length
+      ? "untrusted"
+      : "mixed";
+  const Icon =
+    level === "trusted"
+      ? ShieldCheck
+      : level === "untrusted"
+      ? ShieldX
+      : ShieldAlert;
+
+  return (
+    <p
+      className={cn(
+        "flex items-center gap-1 mt-2 text-xs font-medium",
+        level === "trusted" && "text-green-700",
+        level === "mixed" && "text-amber-700",
+        level === "untrusted" && "text-red-700"
+      )}
+    >
+      <Icon className="w-3.5 h-3.5" />
+      {verifiedCount} of {citations.length} citations verified ·{" "}
+      {formatPercent(verification.overallAccuracy)} accuracy
+    </p>
+  );
+};
+
+export default MessageTrustIndicator;
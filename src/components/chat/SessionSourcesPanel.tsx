@@ -0,0 +1,310 @@
+import React, { useMemo, useState } from "react";
+import { Loader2, X } from "lucide-react";
+import CitationPreview from "./CitationPreview";
+import {
+  useSessionCitationClustersQuery,
+  useSessionCitationsQuery,
+} from "../../hooks/useCitationsQueries";
+import {
+  adaptAnalysisCitationToUI,
+  getCitationPassageKey,
+} from "../../utils/typeAdapters";
+import { cn } from "../../utils/cn";
+import type { ChatMessage, Citation } from "../../types";
+
+interface SessionSourcesPanelProps {
+  sessionId: string;
+  // Messages of the open conversation, including answers not yet indexed
+  messages: ChatMessage[];
+  onCitationClick: (citation: Citation) => void;
+  onClose: () => void;
+}
+
+type GroupBy = "document" | "page" | "cluster";
+type ClusteringMethod = "semantic" | "topic";
+
+interface SessionSource {
+  citation: Citation;
+  // How many answers cite it
+  references: number;
+}
+
+interface SourceGroup {
+  key: string;
+  title: string;
+  sources: SessionSource[];
+}
+
+const GROUP_BY_LABELS: Record<GroupBy, string> = {
+  document: "Document",
+  page: "Page",
+  cluster: "Theme",
+};
+
+const CLUSTERING_METHOD_LABELS: Record<ClusteringMethod, string> = {
+  semantic: "Semantic",
+  topic: "Topic",
+};
+
+const getDocumentTitle = (citation: Citation) =>
+  citation.documentTitle || "Untitled document";
+
+const countReferences = (group: SourceGroup) =>
+  group.sources.reduce((total, source) => total + source.references, 0);
+
+// Group sources by a key, keeping first-seen order
+const groupSources = (
+  sources: SessionSource[],
+  getKey: (citation: Citation) => string,
+  getTitle: (citation: Citation) => string
+): SourceGroup[] => {
+  const groups = new Map<string, SourceGroup>();
+  sources.forEach((source) => {
+    const key = getKey(source.citation);
+    const group = groups.get(key);
+    if (group) {
+      group.sources.push(source);
+    } else {
+      groups.set(key, {
+        key,
+        title: getTitle(source.citation),
+        sources: [source],
+      });
+    }
+  });
+  return Array.from(groups.values());
+};
+
+const SessionSourcesPanel: React.FC<SessionSourcesPanelProps> = ({
+  sessionId,
+  messages,
+  onCitationClick,
+  onClose,
+}) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>("document");
+  const [clusteringMethod, setClusteringMethod] =
+    useState<ClusteringMethod>("semantic");
+
+  const sessionCitationsQuery = useSessionCitationsQuery(sessionId);
+
+  // Every citation referenced so far: the conversation's own answers first,
+  // then any the backend recorded for the session that aren't loaded here
+  const sources = useMemo(() => {
+    const byPassage = new Map<
+      string,
+      { citation: Citation; messageIds: Set<string> }
+    >();
+    messages.forEach((message) =>
+      message.citations?.forEach((citation) => {
+        const key = getCitationPassageKey(citation);
+        const existing = byPassage.get(key);
+        if (existing) existing.messageIds.add(message.id);
+        else
+          byPassage.set(key, { citation, messageIds: new Set([message.id]) });
+      })
+    );
+    sessionCitationsQuery.data?.forEach((apiCitation) => {
+      const citation = adaptAnalysisCitationToUI(apiCitation);
+      const key = getCitationPassageKey(citation);
+      if (!byPassage.has(key)) {
+        byPassage.set(key, { citation, messageIds: new Set() });
+      }
+    });
+    // Sources known only to the backend count as one reference
+    return Array.from(
+      byPassage.values(),
+      ({ citation, messageIds }): SessionSource => ({
+        citation,
+        references: Math.max(messageIds.size, 1),
+      })
+    );
+  }, [messages, sessionCitationsQuery.data]);
+
+  const citations = useMemo(
+    () => sources.map((source) => source.citation),
+    [sources]
+  );
+  const clustersQuery = useSessionCitationClustersQuery(
+    sessionId,
+    citations,
+    clusteringMethod,
+    groupBy === "cluster"
+  );
+
+  const groups = useMemo((): SourceGroup[] => {
+    switch (groupBy) {
+      case "document":
+        return groupSources(
+          sources,
+          (citation) => citation.documentId,
+          getDocumentTitle
+        );
+      case "page":
+        return groupSources(
+          [...sources].sort(
+            (a, b) =>
+              getDocumentTitle(a.citation).localeCompare(
+                getDocumentTitle(b.citation)
+              ) || a.citation.page - b.citation.page
+          ),
+          (citation) => `${citation.documentId}:${citation.page}`,
+          (citation) => `${getDocumentTitle(citation)} · p. ${citation.page}`
+        );
+      case "cluster": {
+        const sourcesById = new Map(
+          sources.map((source) => [source.citation.id, source])
+        );
+        const sourcesByPassage = new Map(
+          sources.map((source) => [getCitationPassageKey(source.citation), source])
+        );
+        return (clustersQuery.data?.clusters ?? []).map((cluster) => ({
+          key: cluster.cluster_id,
+          title: cluster.theme,
+          sources: cluster.citations.map((apiCitation) => {
+            const citation = adaptAnalysisCitationToUI(apiCitation);
+            return (
+              sourcesById.get(citation.id) ??
+              sourcesByPassage.get(getCitationPassageKey(citation)) ?? {
+                citation,
+                references: 1,
+              }
+            );
+          }),
+        }));
+      }
+    }
+  }, [groupBy, sources, clustersQuery.data]);
+
+  const isLoading =
+    sessionCitationsQuery.isLoading ||
+    (groupBy === "cluster" && clustersQuery.isLoading);
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-900">
+          Sources{" "}
+          <span className="font-normal text-gray-500">({sources.length})</span>
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-gray-500 bg-transparent rounded hover:bg-gray-100"
+          title="Close sources"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Grouping */}
+      <div className="flex items-center gap-1 px-4 py-2 border-b border-gray-100">
+        {(Object.keys(GROUP_BY_LABELS) as GroupBy[]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setGroupBy(value)}
+            className={cn(
+              "px-2 py-1 text-xs rounded",
+              groupBy === value
+                ? "bg-gray-900 text-white"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+            )}
+          >
+            {GROUP_BY_LABELS[value]}
+          </button>
+        ))}
+        {groupBy === "cluster" && (
+          <select
+            value={clusteringMethod}
+            onChange={(e) =>
+              setClusteringMethod(e.target.value as ClusteringMethod)
+            }
+            className="py-1 pl-2 pr-6 ml-auto text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-purple-500"
+            title="Clustering method"
+          >
+            {(Object.keys(CLUSTERING_METHOD_LABELS) as ClusteringMethod[]).map(
+              (method) => (
+                <option key={method} value={method}>
+                  {CLUSTERING_METHOD_LABELS[method]}
+                </option>
+              )
+            )}
+          </select>
+        )}
+      </div>
+
+      {/* Groups */}
+      <div className="flex-1 overflow-y-auto">
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {!isLoading && sources.length === 0 && (
+          <p className="px-4 py-8 text-sm text-center text-gray-500">
+            No sources cited in this conversation yet
+          </p>
+        )}
+
+        {groupBy === "cluster" && clustersQuery.isError && (
+          <p className="px-4 py-8 text-sm text-center text-gray-500">
+            Couldn't group sources by theme
+          </p>
+        )}
+
+        {!isLoading &&
+          groups.map((group) => (
+            <section
+              key={group.key}
+              className="px-4 py-3 border-b border-gray-100"
+            >
+              <h4 className="flex items-baseline justify-between gap-2 mb-1 text-xs font-semibold text-gray-700">
+                <span className="truncate">{group.title}</span>
+                <span className="flex-shrink-0 font-normal text-gray-500">
+                  {group.sources.length}{" "}
+                  {group.sources.length === 1 ? "passage" : "passages"} ·{" "}
+                  {countReferences(group)}{" "}
+                  {countReferences(group) === 1 ? "reference" : "references"}
+                </span>
+              </h4>
+              <ul className="space-y-1">
+                {group.sources.map(({ citation, references }) => (
+                  <li key={getCitationPassageKey(citation)}>
+                    <CitationPreview citation={citation} className="block">
+                      <button
+                        type="button"
+                        onClick={() => onCitationClick(citation)}
+                        className="flex items-start w-full gap-2 px-1 py-0.5 text-xs text-left text-gray-700 bg-transparent rounded hover:bg-gray-100"
+                      >
+                        <span className="flex-1 min-w-0">
+                          {groupBy !== "page" && (
+                            <span className="font-medium">
+                              {groupBy === "cluster" &&
+                                `${getDocumentTitle(citation)} · `}
+                              p. {citation.page}
+                            </span>
+                          )}
+                          <span className="block text-gray-500 truncate">
+                            {citation.text || "No preview available."}
+                          </span>
+                        </span>
+                        {references > 1 && (
+                          <span className="flex-shrink-0 text-gray-400">
+                            {references}×
+                          </span>
+                        )}
+                      </button>
+                    </CitationPreview>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionSourcesPanel;
@@ -1,155 +1,352 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useMemo, useRef } from "react";
 import { Toaster } from "react-hot-toast";
+import { ArrowLeft } from "lucide-react";
 import PDFUploader from "../pdf/PDFUploader";
 import PDFViewer from "../pdf/PDFViewer";
 import EnhancedChatInterface from "../chat/EnhancedChatInterface";
+import NotebookList from "../notebook/NotebookList";
+import NotebookSources from "../notebook/NotebookSources";
+import ProcessingProgressPanel from "../pdf/ProcessingProgressPanel";
+import DocumentLibrary from "../library/DocumentLibrary";
 import {
   useDocumentsQuery,
-  useUploadDocumentMutation,
   useDocumentQuery,
 } from "../../hooks/useDocumentQueries";
-import { useCreateChatSessionMutation } from "../../hooks/useChatQueries";
-import type { UploadProgress } from "../../types";
+import {
+  useCreateChatSessionMutation,
+  useChatSessionsQuery,
+  useChatMessagesQuery,
+} from "../../hooks/useChatQueries";
+import {
+  useNotebookQuery,
+  useUpdateNotebookMutation,
+} from "../../hooks/useNotebookQueries";
+import { useUploadQueue } from "../../hooks/useUploadQueue";
+import { isInProgressState } from "../../utils/documentLifecycle";
+import type {
+  UploadQueueItem,
+  Citation,
+  ChatSession,
+  Notebook,
+  PassageAction,
+  PassageRequest,
+  SelectedPassage,
+} from "../../types";
 
 const MainLayoutWithQuery: React.FC = () => {
   const [currentDocumentId, setCurrentDocumentId] = useState<string | null>(
     null
   );
+  const [currentNotebookId, setCurrentNotebookId] = useState<string | null>(
+    null
+  );
+  // Notebook documents the chat currently answers from
+  const [activeSourceIds, setActiveSourceIds] = useState<string[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
   const [scale, setScale] = useState(1.0);
-  const [uploadProgress, setUploadProgress] = useState<UploadProgress>({
-    percentage: 0,
-    status: "idle",
-  });
-  const [hasCreatedSession, setHasCreatedSession] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
+  const [passageRequest, setPassageRequest] = useState<PassageRequest | null>(
+    null
+  );
+  const [currentSession, setCurrentSession] = useState<ChatSession | null>(
+    null
+  );
+  const [hasResolvedSession, setHasResolvedSession] = useState(false);
+  // Session picked from another document's history, applied once it loads
+  const [preferredSessionId, setPreferredSessionId] = useState<string | null>(
+    null
+  );
 
-  const documentsQuery = useDocumentsQuery(!currentDocumentId); // Only fetch when no document is selected
-  const uploadMutation = useUploadDocumentMutation();
+  // Only fetch the list when no document is selected or a notebook needs its sources
+  const documentsQuery = useDocumentsQuery(
+    !currentDocumentId || !!currentNotebookId
+  );
+  const autoOpenItemRef = useRef<string | null>(null);
+  const {
+    items: uploadItems,
+    enqueue: enqueueUploads,
+    retry: retryUpload,
+    uploadAnyway,
+    remove: removeUpload,
+    clearFinished: clearFinishedUploads,
+  } = useUploadQueue({
+    onUploaded: (itemId, documentId) => {
+      if (autoOpenItemRef.current === itemId) {
+        autoOpenItemRef.current = null;
+        setCurrentDocumentId(documentId);
+      }
+    },
+  });
   const createSessionMutation = useCreateChatSessionMutation();
+  const updateNotebookMutation = useUpdateNotebookMutation();
+  const sessionsQuery = useChatSessionsQuery(
+    !!currentDocumentId || !!currentNotebookId
+  );
+
+  const notebookQuery = useNotebookQuery(currentNotebookId || "");
+  const currentNotebook = currentNotebookId ? notebookQuery.data : undefined;
+  const notebookDocuments = useMemo(
+    () =>
+      currentNotebook
+        ? (documentsQuery.data || []).filter((doc) =>
+            currentNotebook.documentIds.includes(doc.id)
+          )
+        : [],
+    [currentNotebook, documentsQuery.data]
+  );
 
   // Get current document (no polling, just fetch when needed)
   const documentQuery = useDocumentQuery(currentDocumentId || "");
-  const currentDocument = documentQuery.data;
-  const documentStatus = currentDocument?.status || "idle";
+  // Fall back to the listed copy so switching notebook sources doesn't flash the library
+  const currentDocument =
+    documentQuery.data ??
+    documentsQuery.data?.find((doc) => doc.id === currentDocumentId);
 
-  const handleFileUpload = useCallback(
-    async (file: File) => {
-      // Validate file type
-      if (!file.type.includes("pdf")) {
-        return;
-      }
-
-      setUploadProgress({
-        percentage: 0,
-        status: "uploading",
-        message: "Starting upload...",
-      });
-
-      try {
-        const result = await uploadMutation.mutateAsync(file);
-
-        // Set the uploaded document as current
-        setCurrentDocumentId(result.document_id);
-
-        setUploadProgress({
-          percentage: 100,
-          status: "complete",
-          message: "Upload completed successfully!",
-        });
-      } catch {
-        setUploadProgress({
-          percentage: 0,
-          status: "error",
-          message: "Upload failed. Please try again.",
-        });
-      }
+  // Open the uploaded document straight away when it was dropped on its own
+  const handleFilesUpload = useCallback(
+    (files: File[]) => {
+      const [itemId] = enqueueUploads(files);
+      autoOpenItemRef.current = files.length === 1 ? itemId : null;
     },
-    [uploadMutation]
+    [enqueueUploads]
   );
 
+  const handleOpenUploadItem = useCallback((item: UploadQueueItem) => {
+    const documentId = item.documentId ?? item.duplicateOf?.id;
+    if (documentId) setCurrentDocumentId(documentId);
+  }, []);
+
   // Handle page changes
   const handlePageChange = useCallback((page: number) => {
     setCurrentPage(page);
   }, []);
 
-  // Handle citation clicks
+  // Handle citation clicks - jump to the page and highlight the passage,
+  // opening the cited source first when chatting across a notebook
   const handleCitationClick = useCallback(
-    (citation: {
-      id: string;
-      page: number;
-      text: string;
-      documentId: string;
-    }) => {
+    (citation: Citation) => {
+      if (
+        currentNotebookId &&
+        citation.documentId &&
+        citation.documentId !== currentDocumentId
+      ) {
+        setCurrentDocumentId(citation.documentId);
+      }
       setCurrentPage(citation.page);
+      setActiveCitation(citation);
+    },
+    [currentNotebookId, currentDocumentId]
+  );
+
+  const handlePassageAction = useCallback(
+    (action: PassageAction, passage: SelectedPassage) => {
+      setPassageRequest({ id: crypto.randomUUID(), action, passage });
     },
     []
   );
 
+  // Open a notebook with all of its ready documents selected as sources
+  const handleOpenNotebook = useCallback(
+    (notebook: Notebook) => {
+      const readyIds = (documentsQuery.data || [])
+        .filter(
+          (doc) =>
+            notebook.documentIds.includes(doc.id) && doc.status === "ready"
+        )
+        .map((doc) => doc.id);
+
+      setCurrentNotebookId(notebook.id);
+      setActiveSourceIds(readyIds);
+      setCurrentDocumentId(readyIds[0] || notebook.documentIds[0] || null);
+      setCurrentPage(1);
+    },
+    [documentsQuery.data]
+  );
+
+  const handleToggleSource = useCallback((documentId: string) => {
+    setActiveSourceIds((prev) =>
+      prev.includes(documentId)
+        ? prev.filter((id) => id !== documentId)
+        : [...prev, documentId]
+    );
+  }, []);
+
+  const handleViewDocument = useCallback((documentId: string) => {
+    setCurrentDocumentId(documentId);
+    setCurrentPage(1);
+  }, []);
+
+  const handleCloseNotebook = useCallback(() => {
+    setCurrentNotebookId(null);
+    setActiveSourceIds([]);
+    setCurrentDocumentId(null);
+  }, []);
+
+  const handleCloseDocument = useCallback(() => {
+    setCurrentDocumentId(null);
+  }, []);
+
   // Handle scale changes
   const handleScaleChange = useCallback((newScale: number) => {
     setScale(newScale);
   }, []);
 
-  // Update upload progress based on document status (simplified)
-  React.useEffect(() => {
-    // Simple progress tracking based on document status
-    if (currentDocument && documentStatus) {
-      const progress: UploadProgress = {
-        percentage:
-          documentStatus === "ready"
-            ? 100
-            : documentStatus === "processing"
-            ? 50
-            : 0,
-        status:
-          documentStatus === "ready"
-            ? "complete"
-            : documentStatus === "error"
-            ? "error"
-            : documentStatus === "processing"
-            ? "processing"
-            : "idle",
-        message: documentStatus === "error" ? "Processing failed" : undefined,
-      };
-
-      setUploadProgress(progress);
+  // Reopen the notebook's conversation, or start one covering all its sources
+  const resolveSessionForNotebook = React.useCallback(() => {
+    if (!currentNotebook || hasResolvedSession || !sessionsQuery.isFetched) {
+      return;
     }
-  }, [documentStatus, currentDocumentId, currentDocument]);
 
-  // Stable session creation function to prevent infinite loops
-  const createSessionForDocument = React.useCallback(() => {
+    setHasResolvedSession(true);
+
+    const notebookSession = sessionsQuery.data?.find(
+      (session) => session.id === currentNotebook.sessionId
+    );
+    if (notebookSession) {
+      setCurrentSession(notebookSession);
+      return;
+    }
+
+    createSessionMutation.mutate(
+      {
+        documentIds: currentNotebook.documentIds,
+        sessionName: `Notebook: ${currentNotebook.name}`,
+      },
+      {
+        onSuccess: (session) => {
+          setCurrentSession(session);
+          updateNotebookMutation.mutate({
+            id: currentNotebook.id,
+            updates: { sessionId: session.id },
+          });
+        },
+      }
+    );
+  }, [
+    currentNotebook,
+    hasResolvedSession,
+    sessionsQuery.isFetched,
+    sessionsQuery.data,
+    createSessionMutation,
+    updateNotebookMutation,
+  ]);
+
+  // Resume the most recent session for the document, or create one if none exist
+  const resolveSessionForDocument = React.useCallback(() => {
     if (
-      currentDocument &&
-      currentDocument.status === "ready" &&
-      !hasCreatedSession &&
-      !createSessionMutation.data &&
-      !createSessionMutation.isPending
+      currentNotebookId ||
+      !currentDocument ||
+      currentDocument.status !== "ready" ||
+      hasResolvedSession ||
+      !sessionsQuery.isFetched
     ) {
-      setHasCreatedSession(true);
-      createSessionMutation.mutate({
+      return;
+    }
+
+    setHasResolvedSession(true);
+
+    const documentSessions = (sessionsQuery.data || [])
+      .filter((session) => session.documentId === currentDocument.id)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    const resumedSession =
+      documentSessions.find((session) => session.id === preferredSessionId) ||
+      documentSessions[0];
+    setPreferredSessionId(null);
+
+    if (resumedSession) {
+      setCurrentSession(resumedSession);
+      return;
+    }
+
+    createSessionMutation.mutate(
+      {
         documentId: currentDocument.id,
         sessionName: `Chat with ${currentDocument.name}`,
-      });
-    }
-  }, [currentDocument, hasCreatedSession, createSessionMutation]);
+      },
+      {
+        onSuccess: (session) => setCurrentSession(session),
+      }
+    );
+  }, [
+    currentNotebookId,
+    currentDocument,
+    hasResolvedSession,
+    preferredSessionId,
+    sessionsQuery.isFetched,
+    sessionsQuery.data,
+    createSessionMutation,
+  ]);
 
-  // Auto-create chat session when document is ready
-  React.useEffect(() => {
-    createSessionForDocument();
-  }, [createSessionForDocument]);
+  // Switch to a session from the history panel, opening its document if needed
+  const handleSelectSession = useCallback(
+    (session: ChatSession) => {
+      if (session.documentId && session.documentId !== currentDocumentId) {
+        setPreferredSessionId(session.id);
+        setCurrentDocumentId(session.documentId);
+        return;
+      }
+      setCurrentSession(session);
+    },
+    [currentDocumentId]
+  );
 
-  // Track successful session creation
+  // Start a fresh conversation about the current document
+  const handleNewSession = useCallback(() => {
+    if (!currentDocument) return;
+    createSessionMutation.mutate(
+      {
+        documentId: currentDocument.id,
+        sessionName: `Chat with ${currentDocument.name}`,
+      },
+      {
+        onSuccess: (session) => setCurrentSession(session),
+      }
+    );
+  }, [currentDocument, createSessionMutation]);
+
+  // Fall back to the next most recent session when the open one is deleted
+  const handleSessionDeleted = useCallback(
+    (sessionId: string) => {
+      if (currentSession?.id !== sessionId) return;
+      setCurrentSession(null);
+      setHasResolvedSession(false);
+    },
+    [currentSession]
+  );
+
+  // Prefer the cached copy so renames show up immediately
+  const activeSession =
+    sessionsQuery.data?.find((session) => session.id === currentSession?.id) ||
+    currentSession;
+
+  // Pages of the open document cited anywhere in the current conversation
+  const sessionMessagesQuery = useChatMessagesQuery(activeSession?.id || "");
+  const citedPages = useMemo(() => {
+    const pages = new Set<number>();
+    sessionMessagesQuery.data?.forEach((message) =>
+      message.citations?.forEach((citation) => {
+        if (!citation.documentId || citation.documentId === currentDocumentId) {
+          pages.add(citation.page);
+        }
+      })
+    );
+    return Array.from(pages);
+  }, [sessionMessagesQuery.data, currentDocumentId]);
+
+  // Attach a chat session when document or notebook is ready
   React.useEffect(() => {
-    if (createSessionMutation.data && createSessionMutation.isSuccess) {
-      // Session created successfully - could add success handling here if needed
-    }
-  }, [createSessionMutation.data, createSessionMutation.isSuccess]);
+    resolveSessionForNotebook();
+    resolveSessionForDocument();
+  }, [resolveSessionForNotebook, resolveSessionForDocument]);
 
-  // Reset session tracking when document changes
+  // Reset session tracking when the chat scope changes. Within a notebook
+  // the conversation spans every source, so viewing another one keeps it.
+  const sessionScopeId = currentNotebookId ?? currentDocumentId;
   React.useEffect(() => {
-    setHasCreatedSession(false);
-    // Reset session state
-  }, [currentDocumentId]);
+    setHasResolvedSession(false);
+    setCurrentSession(null);
+    setActiveCitation(null);
+  }, [sessionScopeId]);
 
   if (!currentDocumentId || !currentDocument) {
     return (
@@ -168,53 +365,31 @@ const MainLayoutWithQuery: React.FC = () => {
             </div>
           </div>
 
-          {/* Document List */}
-          {documentsQuery.data && documentsQuery.data.length > 0 && (
-            <div className="max-w-7xl mx-auto p-6">
-              <h2 className="text-lg font-semibold text-gray-900 mb-4">
-                Recent Documents
-              </h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
-                {documentsQuery.data.map((doc) => (
-                  <div
-                    key={doc.id}
-                    className="bg-white rounded-lg border border-gray-200 p-4 hover:shadow-md transition-shadow cursor-pointer"
-                    onClick={() => setCurrentDocumentId(doc.id)}
-                  >
-                    <h3 className="font-medium text-gray-900 truncate">
-                      {doc.name}
-                    </h3>
-                    <p className="text-sm text-gray-500 mt-1">
-                      {(doc.size / 1024 / 1024).toFixed(1)} MB
-                    </p>
-                    <p className="text-sm text-gray-500">
-                      {doc.uploadedAt.toLocaleDateString()}
-                    </p>
-                    <div
-                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 ${
-                        doc.status === "ready"
-                          ? "bg-green-100 text-green-800"
-                          : doc.status === "processing"
-                          ? "bg-yellow-100 text-yellow-800"
-                          : doc.status === "error"
-                          ? "bg-red-100 text-red-800"
-                          : "bg-gray-100 text-gray-800"
-                      }`}
-                    >
-                      {doc.status}
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
+          {/* Notebooks */}
+          {documentsQuery.data && (
+            <NotebookList
+              documents={documentsQuery.data}
+              onOpenNotebook={handleOpenNotebook}
+            />
           )}
 
+          {/* Document Library */}
+          <DocumentLibrary
+            documents={documentsQuery.data ?? []}
+            isLoading={documentsQuery.isLoading}
+            onOpenDocument={setCurrentDocumentId}
+          />
+
           {/* Upload Section */}
           <div className="max-w-2xl mx-auto p-6">
             <PDFUploader
-              onFileUpload={handleFileUpload}
-              isUploading={uploadMutation.isPending}
-              progress={uploadProgress}
+              onFilesUpload={handleFilesUpload}
+              queue={uploadItems}
+              onRetryItem={retryUpload}
+              onUploadAnyway={uploadAnyway}
+              onRemoveItem={removeUpload}
+              onOpenItem={handleOpenUploadItem}
+              onClearFinished={clearFinishedUploads}
             />
           </div>
         </div>
@@ -223,11 +398,9 @@ const MainLayoutWithQuery: React.FC = () => {
   }
 
   // Determine if we should show loading state
-  const isLoadingState = ["uploading", "processing"].includes(
-    currentDocument.status
-  );
+  const isLoadingState = isInProgressState(currentDocument.status);
 
-  if (isLoadingState) {
+  if (isLoadingState && !currentNotebook) {
     return (
       <>
         <Toaster position="top-right" />
@@ -238,15 +411,15 @@ const MainLayoutWithQuery: React.FC = () => {
               Processing Document
             </h2>
             <p className="text-gray-600 mb-4">{currentDocument.name}</p>
-            <div className="w-64 bg-gray-200 rounded-full h-2 mx-auto">
-              <div
-                className="bg-purple-600 h-2 rounded-full transition-all duration-300"
-                style={{ width: `${uploadProgress.percentage}%` }}
-              ></div>
-            </div>
-            <p className="text-sm text-gray-500 mt-2">
-              {uploadProgress.message || "Processing your document..."}
-            </p>
+            <ProcessingProgressPanel documentId={currentDocument.id} />
+            <button
+              type="button"
+              onClick={handleCloseDocument}
+              className="inline-flex items-center gap-1 mt-4 text-sm text-gray-600 bg-transparent hover:text-gray-900"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to library
+            </button>
           </div>
         </div>
       </>
@@ -259,12 +432,52 @@ const MainLayoutWithQuery: React.FC = () => {
       <Toaster position="top-right" />
       <div className="flex h-screen bg-gray-50">
         {/* Chat Sidebar */}
-        <div className="w-1/3 min-w-[400px] max-w-[500px] border-r border-gray-200 bg-white flex-shrink-0">
-          <EnhancedChatInterface
-            document={currentDocument}
-            onCitationClick={handleCitationClick}
-            currentSession={createSessionMutation.data}
-          />
+        <div className="w-1/3 min-w-[400px] max-w-[500px] border-r border-gray-200 bg-white flex-shrink-0 flex flex-col">
+          {currentNotebook ? (
+            <>
+              <NotebookSources
+                notebook={currentNotebook}
+                documents={notebookDocuments}
+                activeSourceIds={activeSourceIds}
+                viewedDocumentId={currentDocumentId}
+                onToggleSource={handleToggleSource}
+                onViewDocument={handleViewDocument}
+                onClose={handleCloseNotebook}
+              />
+              <div className="flex-1 min-h-0">
+                <EnhancedChatInterface
+                  document={currentDocument}
+                  onCitationClick={handleCitationClick}
+                  passageRequest={passageRequest}
+                  currentSession={activeSession}
+                  documentIds={activeSourceIds}
+                  title={`Chat with ${currentNotebook.name}`}
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={handleCloseDocument}
+                className="flex items-center gap-1 px-4 py-2 text-sm text-gray-600 bg-transparent border-b border-gray-200 hover:text-gray-900"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Library
+              </button>
+              <div className="flex-1 min-h-0">
+                <EnhancedChatInterface
+                  document={currentDocument}
+                  onCitationClick={handleCitationClick}
+                  passageRequest={passageRequest}
+                  currentSession={activeSession}
+                  onSelectSession={handleSelectSession}
+                  onNewSession={handleNewSession}
+                  onSessionDeleted={handleSessionDeleted}
+                />
+              </div>
+            </>
+          )}
         </div>
 
         {/* PDF Viewer */}
@@ -276,6 +489,9 @@ const MainLayoutWithQuery: React.FC = () => {
             scale={scale}
             onScaleChange={handleScaleChange}
             onDocumentLoad={() => {}}
+            highlightedCitation={activeCitation}
+            citedPages={citedPages}
+            onPassageAction={handlePassageAction}
           />
         </div>
       </div>
@@ -0,0 +1,161 @@
+import React, { useEffect } from "react";
+import { ExternalLink, Trash2, X } from "lucide-react";
+import DocumentStatusBadge from "./DocumentStatusBadge";
+import ProcessingProgressPanel from "../pdf/ProcessingProgressPanel";
+import ReprocessControls from "../pdf/ReprocessControls";
+import { useDeleteDocumentMutation } from "../../hooks/useDocumentQueries";
+import {
+  getProcessingStageLabel,
+  isInProgressState,
+} from "../../utils/documentLifecycle";
+import { formatDuration, formatFileSize } from "../../utils/helpers";
+import type { Document } from "../../types";
+
+interface DocumentDetailsDrawerProps {
+  document: Document;
+  onOpen: (documentId: string) => void;
+  onClose: () => void;
+}
+
+// Fields already shown above the raw metadata list
+const SHOWN_METADATA_KEYS = ["chunk_count", "processing_time_ms", "content_hash"];
+
+const formatMetadataValue = (value: unknown) =>
+  typeof value === "string" ? value : JSON.stringify(value);
+
+const DocumentDetailsDrawer: React.FC<DocumentDetailsDrawerProps> = ({
+  document,
+  onOpen,
+  onClose,
+}) => {
+  const deleteMutation = useDeleteDocumentMutation();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${document.name}"?`)) {
+      deleteMutation.mutate(document.id, { onSuccess: onClose });
+    }
+  };
+
+  const details: { label: string; value: React.ReactNode }[] = [
+    { label: "Size", value: formatFileSize(document.size) },
+    { label: "Uploaded", value: document.uploadedAt.toLocaleString() },
+    { label: "Pages", value: document.totalPages ?? "—" },
+    { label: "Chunks", value: document.chunkCount ?? "—" },
+    {
+      label: "Processing time",
+      value:
+        document.processingTimeMs != null
+          ? formatDuration(document.processingTimeMs / 1000)
+          : "—",
+    },
+    {
+      label: "Stage",
+      value: document.processingStage
+        ? getProcessingStageLabel(document.processingStage)
+        : "—",
+    },
+  ];
+  const metadata = Object.entries(document.metadata ?? {}).filter(
+    ([key]) => !SHOWN_METADATA_KEYS.includes(key)
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+
+      <aside className="relative flex flex-col w-96 max-w-full h-full bg-white shadow-xl">
+        <div className="flex items-start justify-between gap-2 p-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <h2 className="font-semibold text-gray-900 break-words">
+              {document.name}
+            </h2>
+            <DocumentStatusBadge document={document} className="mt-1" />
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-500 bg-transparent rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 p-4 overflow-y-auto">
+          {document.status === "processing" && (
+            <ProcessingProgressPanel documentId={document.id} compact />
+          )}
+          {!isInProgressState(document.status) && (
+            <ReprocessControls document={document} />
+          )}
+
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-3 mt-4 text-sm">
+            {details.map(({ label, value }) => (
+              <div key={label}>
+                <dt className="text-xs text-gray-500">{label}</dt>
+                <dd className="text-gray-900">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {document.contentHash && (
+            <div className="mt-4 text-sm">
+              <p className="text-xs text-gray-500">SHA-256</p>
+              <p className="font-mono text-xs text-gray-700 break-all">
+                {document.contentHash}
+              </p>
+            </div>
+          )}
+
+          {metadata.length > 0 && (
+            <div className="mt-4">
+              <h3 className="mb-2 text-xs font-medium text-gray-500 uppercase">
+                Metadata
+              </h3>
+              <dl className="space-y-2 text-sm">
+                {metadata.map(([key, value]) => (
+                  <div key={key}>
+                    <dt className="text-xs text-gray-500">{key}</dt>
+                    <dd className="text-gray-900 break-words">
+                      {formatMetadataValue(value)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 p-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={deleteMutation.isPending}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 bg-transparent rounded-lg hover:bg-red-50 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </button>
+          <button
+            type="button"
+            onClick={() => onOpen(document.id)}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700"
+          >
+            <ExternalLink className="w-4 h-4" />
+            Open
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default DocumentDetailsDrawer;
@@ -0,0 +1,395 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ChevronRight,
+  Info,
+  RefreshCw,
+  Search,
+  Trash2,
+} from "lucide-react";
+import DocumentStatusBadge from "./DocumentStatusBadge";
+import DocumentDetailsDrawer from "./DocumentDetailsDrawer";
+import ProcessingProgressPanel from "../pdf/ProcessingProgressPanel";
+import { useDeleteDocumentsMutation } from "../../hooks/useDocumentQueries";
+import { useReprocessDocumentsMutation } from "../../hooks/useProcessingQueries";
+import {
+  DOCUMENT_STATES,
+  getDocumentStateLabel,
+  isInProgressState,
+  type DocumentState,
+} from "../../utils/documentLifecycle";
+import { LIBRARY_CONFIG } from "../../utils/constants";
+import { formatFileSize } from "../../utils/helpers";
+import { cn } from "../../utils/cn";
+import type { Document } from "../../types";
+
+interface DocumentLibraryProps {
+  documents: Document[];
+  isLoading?: boolean;
+  onOpenDocument: (documentId: string) => void;
+}
+
+type SortKey = "name" | "size" | "uploadedAt" | "totalPages";
+type SortDirection = "asc" | "desc";
+
+const COLUMNS: { key: SortKey; label: string; className?: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "totalPages", label: "Pages", className: "w-20 text-right" },
+  { key: "size", label: "Size", className: "w-24 text-right" },
+  { key: "uploadedAt", label: "Uploaded", className: "w-32" },
+];
+
+const compareDocuments = (key: SortKey) => (a: Document, b: Document) => {
+  switch (key) {
+    case "name":
+      return a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+    case "size":
+      return a.size - b.size;
+    case "uploadedAt":
+      return a.uploadedAt.getTime() - b.uploadedAt.getTime();
+    case "totalPages":
+      // Documents without a page count yet sort first
+      return (a.totalPages ?? -1) - (b.totalPages ?? -1);
+  }
+};
+
+const pluralize = (count: number) =>
+  `${count} ${count === 1 ? "document" : "documents"}`;
+
+const DocumentLibrary: React.FC<DocumentLibraryProps> = ({
+  documents,
+  isLoading = false,
+  onOpenDocument,
+}) => {
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<DocumentState | "all">(
+    "all"
+  );
+  const [sort, setSort] = useState<{ key: SortKey; direction: SortDirection }>(
+    { key: "uploadedAt", direction: "desc" }
+  );
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+
+  const deleteMutation = useDeleteDocumentsMutation();
+  const reprocessMutation = useReprocessDocumentsMutation();
+
+  const visibleDocuments = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = documents.filter(
+      (doc) =>
+        (statusFilter === "all" || doc.status === statusFilter) &&
+        (!query || doc.name.toLowerCase().includes(query))
+    );
+    const sorted = filtered.sort(compareDocuments(sort.key));
+    return sort.direction === "asc" ? sorted : sorted.reverse();
+  }, [documents, search, statusFilter, sort]);
+
+  const pageCount = Math.max(
+    1,
+    Math.ceil(visibleDocuments.length / LIBRARY_CONFIG.PAGE_SIZE)
+  );
+  const currentPage = Math.min(page, pageCount);
+  const pageDocuments = visibleDocuments.slice(
+    (currentPage - 1) * LIBRARY_CONFIG.PAGE_SIZE,
+    currentPage * LIBRARY_CONFIG.PAGE_SIZE
+  );
+
+  // Ignore selected documents that have since been deleted
+  const selectedDocuments = documents.filter((doc) => selectedIds.has(doc.id));
+  const reprocessableIds = selectedDocuments
+    .filter((doc) => !isInProgressState(doc.status))
+    .map((doc) => doc.id);
+  const isPageSelected =
+    pageDocuments.length > 0 &&
+    pageDocuments.every((doc) => selectedIds.has(doc.id));
+  const detailsDocument = documents.find((doc) => doc.id === detailsId);
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    setPage(1);
+  };
+
+  const handleStatusChange = (value: DocumentState | "all") => {
+    setStatusFilter(value);
+    setPage(1);
+  };
+
+  // Clicking the sorted column again flips the direction
+  const handleSort = (key: SortKey) => {
+    setSort((prev) =>
+      prev.key === key
+        ? { key, direction: prev.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: key === "name" ? "asc" : "desc" }
+    );
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const togglePageSelected = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      pageDocuments.forEach((doc) =>
+        isPageSelected ? next.delete(doc.id) : next.add(doc.id)
+      );
+      return next;
+    });
+  };
+
+  const handleBulkDelete = () => {
+    const ids = selectedDocuments.map((doc) => doc.id);
+    if (
+      window.confirm(`Delete ${pluralize(ids.length)}? This cannot be undone.`)
+    ) {
+      deleteMutation.mutate(ids);
+      setSelectedIds(new Set());
+    }
+  };
+
+  const handleBulkReprocess = (forceReprocess: boolean) => {
+    reprocessMutation.mutate({ documentIds: reprocessableIds, forceReprocess });
+    setSelectedIds(new Set());
+  };
+
+  const closeDetails = useCallback(() => setDetailsId(null), []);
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Library{" "}
+          <span className="text-sm font-normal text-gray-500">
+            ({pluralize(documents.length)})
+          </span>
+        </h2>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative">
+            <Search className="absolute w-4 h-4 text-gray-400 -translate-y-1/2 left-2.5 top-1/2" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              placeholder="Filter by name..."
+              className="w-56 py-1.5 pr-3 text-sm border border-gray-300 rounded-lg pl-8 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) =>
+              handleStatusChange(e.target.value as DocumentState | "all")
+            }
+            className="py-1.5 pl-2 pr-8 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            <option value="all">All statuses</option>
+            {DOCUMENT_STATES.map((state) => (
+              <option key={state} value={state}>
+                {getDocumentStateLabel(state)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {selectedDocuments.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 mb-3 text-sm bg-purple-50 border border-purple-200 rounded-lg">
+          <span className="font-medium text-purple-900">
+            {selectedDocuments.length} selected
+          </span>
+          <button
+            type="button"
+            onClick={() => handleBulkReprocess(false)}
+            disabled={reprocessableIds.length === 0}
+            className="flex items-center gap-1 text-purple-700 bg-transparent hover:underline disabled:opacity-50"
+            title="Process again, reusing the existing chunks"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Reprocess
+          </button>
+          <button
+            type="button"
+            onClick={() => handleBulkReprocess(true)}
+            disabled={reprocessableIds.length === 0}
+            className="text-purple-700 bg-transparent hover:underline disabled:opacity-50"
+            title="Discard the existing chunks and process from scratch"
+          >
+            Re-chunk
+          </button>
+          <button
+            type="button"
+            onClick={handleBulkDelete}
+            className="flex items-center gap-1 text-red-600 bg-transparent hover:underline"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </button>
+          <button
+            type="button"
+            onClick={() => setSelectedIds(new Set())}
+            className="ml-auto text-gray-500 bg-transparent hover:underline"
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      <div className="overflow-x-auto bg-white border border-gray-200 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-left text-gray-500 bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="w-10 px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={isPageSelected}
+                  onChange={togglePageSelected}
+                  aria-label="Select all on this page"
+                />
+              </th>
+              {COLUMNS.map(({ key, label, className }) => (
+                <th key={key} className={cn("px-3 py-2 font-medium", className)}>
+                  <button
+                    type="button"
+                    onClick={() => handleSort(key)}
+                    className="inline-flex items-center gap-1 font-medium bg-transparent hover:text-gray-900"
+                  >
+                    {label}
+                    {sort.key === key &&
+                      (sort.direction === "asc" ? (
+                        <ArrowUp className="w-3 h-3" />
+                      ) : (
+                        <ArrowDown className="w-3 h-3" />
+                      ))}
+                  </button>
+                </th>
+              ))}
+              <th className="w-48 px-3 py-2 font-medium">Status</th>
+              <th className="w-10 px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {pageDocuments.map((doc) => (
+              <tr
+                key={doc.id}
+                className={cn(
+                  "hover:bg-gray-50",
+                  selectedIds.has(doc.id) && "bg-purple-50/50"
+                )}
+              >
+                <td className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(doc.id)}
+                    onChange={() => toggleSelected(doc.id)}
+                    aria-label={`Select ${doc.name}`}
+                  />
+                </td>
+                <td className="max-w-0 px-3 py-2">
+                  <button
+                    type="button"
+                    onClick={() => onOpenDocument(doc.id)}
+                    className="block w-full font-medium text-left text-gray-900 truncate bg-transparent hover:text-purple-700"
+                    title={doc.name}
+                  >
+                    {doc.name}
+                  </button>
+                </td>
+                <td className="px-3 py-2 text-right text-gray-600">
+                  {doc.totalPages ?? "—"}
+                </td>
+                <td className="px-3 py-2 text-right text-gray-600 whitespace-nowrap">
+                  {formatFileSize(doc.size)}
+                </td>
+                <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                  {doc.uploadedAt.toLocaleDateString()}
+                </td>
+                <td className="px-3 py-2">
+                  {doc.status === "processing" ? (
+                    <ProcessingProgressPanel documentId={doc.id} compact />
+                  ) : (
+                    <DocumentStatusBadge document={doc} />
+                  )}
+                </td>
+                <td className="px-3 py-2">
+                  <button
+                    type="button"
+                    onClick={() => setDetailsId(doc.id)}
+                    className="p-1 text-gray-500 bg-transparent rounded hover:bg-gray-100"
+                    title="Details"
+                  >
+                    <Info className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {pageDocuments.length === 0 && (
+          <p className="px-4 py-8 text-sm text-center text-gray-500">
+            {isLoading
+              ? "Loading documents..."
+              : documents.length === 0
+              ? "No documents yet. Upload a PDF below to get started."
+              : "No documents match these filters."}
+          </p>
+        )}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between mt-3 text-sm text-gray-600">
+          <span>
+            {(currentPage - 1) * LIBRARY_CONFIG.PAGE_SIZE + 1}–
+            {Math.min(
+              currentPage * LIBRARY_CONFIG.PAGE_SIZE,
+              visibleDocuments.length
+            )}{" "}
+            of {visibleDocuments.length}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 1}
+              className="p-1 bg-transparent rounded hover:bg-gray-100 disabled:opacity-50"
+              title="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>
+              Page {currentPage} of {pageCount}
+            </span>
+            <button
+              type="button"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage === pageCount}
+              className="p-1 bg-transparent rounded hover:bg-gray-100 disabled:opacity-50"
+              title="Next page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {detailsDocument && (
+        <DocumentDetailsDrawer
+          document={detailsDocument}
+          onOpen={onOpenDocument}
+          onClose={closeDetails}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DocumentLibrary;
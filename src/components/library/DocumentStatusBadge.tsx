@@ -0,0 +1,38 @@
+import React from "react";
+import { getDocumentStateLabel } from "../../utils/documentLifecycle";
+import type { DocumentState } from "../../utils/documentLifecycle";
+import { cn } from "../../utils/cn";
+import type { Document } from "../../types";
+
+const STATE_STYLES: Record<DocumentState, string> = {
+  uploading: "bg-blue-100 text-blue-800",
+  processing: "bg-yellow-100 text-yellow-800",
+  ready: "bg-green-100 text-green-800",
+  error: "bg-red-100 text-red-800",
+  unknown: "bg-gray-100 text-gray-800",
+};
+
+interface DocumentStatusBadgeProps {
+  document: Pick<Document, "status" | "backendStatus">;
+  className?: string;
+}
+
+const DocumentStatusBadge: React.FC<DocumentStatusBadgeProps> = ({
+  document,
+  className,
+}) => (
+  <span
+    className={cn(
+      "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium whitespace-nowrap",
+      STATE_STYLES[document.status],
+      className
+    )}
+  >
+    {getDocumentStateLabel(document.status)}
+    {document.status === "unknown" &&
+      document.backendStatus &&
+      ` (${document.backendStatus})`}
+  </span>
+);
+
+export default DocumentStatusBadge;
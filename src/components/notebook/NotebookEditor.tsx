@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "../ui/Button";
+import {
+  useCreateNotebookMutation,
+  useUpdateNotebookMutation,
+} from "../../hooks/useNotebookQueries";
+import { formatFileSize } from "../../utils/helpers";
+import type { Document, Notebook } from "../../types";
+
+interface NotebookEditorProps {
+  documents: Document[];
+  notebook?: Notebook | null;
+  onClose: () => void;
+  onSaved?: (notebook: Notebook) => void;
+}
+
+const NotebookEditor: React.FC<NotebookEditorProps> = ({
+  documents,
+  notebook = null,
+  onClose,
+  onSaved,
+}) => {
+  const [name, setName] = useState(notebook?.name || "");
+  const [selectedIds, setSelectedIds] = useState<string[]>(
+    notebook?.documentIds || []
+  );
+
+  const createMutation = useCreateNotebookMutation();
+  const updateMutation = useUpdateNotebookMutation();
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+  const canSave = name.trim().length > 0 && selectedIds.length > 0;
+
+  const toggleDocument = (documentId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(documentId)
+        ? prev.filter((id) => id !== documentId)
+        : [...prev, documentId]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    const request = { name: name.trim(), documentIds: selectedIds };
+    const options = {
+      onSuccess: (saved: Notebook) => {
+        onSaved?.(saved);
+        onClose();
+      },
+    };
+
+    if (notebook) {
+      updateMutation.mutate({ id: notebook.id, updates: request }, options);
+    } else {
+      createMutation.mutate(request, options);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-lg bg-white rounded-lg shadow-xl flex flex-col max-h-[80vh]"
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {notebook ? "Edit notebook" : "New notebook"}
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-500 bg-transparent rounded hover:bg-gray-100"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Literature review"
+              className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:border-purple-500 focus:outline-none focus:ring-1 focus:ring-purple-500"
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">
+              Sources ({selectedIds.length} selected)
+            </p>
+            {documents.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Upload documents to add them to a notebook.
+              </p>
+            ) : (
+              <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {documents.map((doc) => (
+                  <li key={doc.id}>
+                    <label className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(doc.id)}
+                        onChange={() => toggleDocument(doc.id)}
+                        className="accent-purple-600"
+                      />
+                      <span className="flex-1 min-w-0 text-sm text-gray-900 truncate">
+                        {doc.name}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {formatFileSize(doc.size)}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 py-4 border-t border-gray-200">
+          <Button type="button" variant="outline" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="primary"
+            size="sm"
+            disabled={!canSave}
+            isLoading={isSaving}
+          >
+            {notebook ? "Save" : "Create"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default NotebookEditor;
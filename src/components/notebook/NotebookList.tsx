@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { BookOpen, Pencil, Plus, Trash2 } from "lucide-react";
+import NotebookEditor from "./NotebookEditor";
+import {
+  useNotebooksQuery,
+  useDeleteNotebookMutation,
+} from "../../hooks/useNotebookQueries";
+import type { Document, Notebook } from "../../types";
+
+interface NotebookListProps {
+  documents: Document[];
+  onOpenNotebook: (notebook: Notebook) => void;
+}
+
+const NotebookList: React.FC<NotebookListProps> = ({
+  documents,
+  onOpenNotebook,
+}) => {
+  // null = closed, "new" = creating, otherwise the notebook being edited
+  const [editing, setEditing] = useState<Notebook | "new" | null>(null);
+
+  const notebooksQuery = useNotebooksQuery();
+  const deleteMutation = useDeleteNotebookMutation();
+  const notebooks = notebooksQuery.data || [];
+
+  const handleDelete = (notebook: Notebook) => {
+    if (window.confirm(`Delete notebook "${notebook.name}"?`)) {
+      deleteMutation.mutate(notebook.id);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Notebooks</h2>
+        <button
+          type="button"
+          onClick={() => setEditing("new")}
+          disabled={documents.length === 0}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-purple-700 bg-purple-50 rounded-lg hover:bg-purple-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4" />
+          New notebook
+        </button>
+      </div>
+
+      {notebooks.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-2">
+          Group several documents into a notebook to chat across all of them.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-2">
+          {notebooks.map((notebook) => {
+            const sources = documents.filter((doc) =>
+              notebook.documentIds.includes(doc.id)
+            );
+
+            return (
+              <div
+                key={notebook.id}
+                className="group bg-white rounded-lg border border-gray-200 p-4 hover:shadow-md transition-shadow cursor-pointer"
+                onClick={() => onOpenNotebook(notebook)}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <BookOpen className="w-4 h-4 text-purple-600 flex-shrink-0" />
+                    <h3 className="font-medium text-gray-900 truncate">
+                      {notebook.name}
+                    </h3>
+                  </div>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditing(notebook);
+                      }}
+                      className="p-1 text-gray-500 bg-transparent rounded hover:bg-gray-100"
+                      title="Edit notebook"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(notebook);
+                      }}
+                      className="p-1 text-red-500 bg-transparent rounded hover:bg-red-50"
+                      title="Delete notebook"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-500 mt-1">
+                  {sources.length} {sources.length === 1 ? "source" : "sources"}
+                </p>
+                <p className="text-xs text-gray-400 truncate mt-1">
+                  {sources.map((doc) => doc.name).join(", ")}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editing && (
+        <NotebookEditor
+          documents={documents}
+          notebook={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default NotebookList;
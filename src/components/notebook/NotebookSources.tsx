@@ -0,0 +1,106 @@
+import React from "react";
+import { Eye, FileText } from "lucide-react";
+import { cn } from "../../utils/cn";
+import type { Document, Notebook } from "../../types";
+
+interface NotebookSourcesProps {
+  notebook: Notebook;
+  documents: Document[];
+  activeSourceIds: string[];
+  viewedDocumentId: string | null;
+  onToggleSource: (documentId: string) => void;
+  onViewDocument: (documentId: string) => void;
+  onClose: () => void;
+}
+
+const NotebookSources: React.FC<NotebookSourcesProps> = ({
+  notebook,
+  documents,
+  activeSourceIds,
+  viewedDocumentId,
+  onToggleSource,
+  onViewDocument,
+  onClose,
+}) => {
+  const sources = documents.filter((doc) =>
+    notebook.documentIds.includes(doc.id)
+  );
+  const readySources = sources.filter((doc) => doc.status === "ready");
+  const allActive = readySources.every((doc) =>
+    activeSourceIds.includes(doc.id)
+  );
+
+  return (
+    <div className="flex-shrink-0 border-b border-gray-200">
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-50">
+        <div className="min-w-0">
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+            Notebook
+          </p>
+          <p className="text-sm font-medium text-gray-900 truncate">
+            {notebook.name}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-2 py-1 text-xs text-gray-600 bg-transparent rounded hover:bg-gray-200"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between px-4 pt-2 text-xs text-gray-500">
+        <span>
+          {activeSourceIds.length} of {sources.length} sources active
+        </span>
+        <button
+          type="button"
+          onClick={() =>
+            readySources
+              .filter((doc) => activeSourceIds.includes(doc.id) === allActive)
+              .forEach((doc) => onToggleSource(doc.id))
+          }
+          className="px-1 text-purple-600 bg-transparent hover:underline"
+        >
+          {allActive ? "Clear all" : "Select all"}
+        </button>
+      </div>
+
+      <ul className="max-h-48 overflow-y-auto px-2 py-1">
+        {sources.map((doc) => (
+          <li
+            key={doc.id}
+            className={cn(
+              "flex items-center gap-2 px-2 py-1.5 rounded",
+              doc.id === viewedDocumentId && "bg-purple-50"
+            )}
+          >
+            <input
+              type="checkbox"
+              checked={activeSourceIds.includes(doc.id)}
+              onChange={() => onToggleSource(doc.id)}
+              disabled={doc.status !== "ready"}
+              className="accent-purple-600"
+              title="Use this source when answering"
+            />
+            <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <span className="flex-1 min-w-0 text-sm text-gray-800 truncate">
+              {doc.name}
+            </span>
+            <button
+              type="button"
+              onClick={() => onViewDocument(doc.id)}
+              className="p-1 text-gray-500 bg-transparent rounded hover:bg-gray-200"
+              title="Open in viewer"
+            >
+              <Eye className="w-3 h-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default NotebookSources;
@@ -0,0 +1,165 @@
+import React, { useState } from "react";
+import { BookmarkPlus, Check, Pencil, Trash2 } from "lucide-react";
+import {
+  useBookmarksQuery,
+  useCreateBookmarkMutation,
+  useDeleteBookmarkMutation,
+  useRenameBookmarkMutation,
+} from "../../hooks/useBookmarkQueries";
+import { cn } from "../../utils/cn";
+import type { Bookmark } from "../../types";
+
+interface PDFBookmarksPanelProps {
+  documentId: string;
+  currentPage: number;
+  onPageChange: (page: number) => void;
+}
+
+const PDFBookmarksPanel: React.FC<PDFBookmarksPanelProps> = ({
+  documentId,
+  currentPage,
+  onPageChange,
+}) => {
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const { data: bookmarks = [] } = useBookmarksQuery(documentId);
+  const createMutation = useCreateBookmarkMutation();
+  const renameMutation = useRenameBookmarkMutation();
+  const deleteMutation = useDeleteBookmarkMutation();
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(
+      {
+        documentId,
+        page: currentPage,
+        name: newName.trim() || `Page ${currentPage}`,
+      },
+      { onSuccess: () => setNewName("") }
+    );
+  };
+
+  const startEditing = (bookmark: Bookmark) => {
+    setEditingId(bookmark.id);
+    setDraftName(bookmark.name);
+  };
+
+  const submitRename = (bookmark: Bookmark) => {
+    const name = draftName.trim();
+    if (name && name !== bookmark.name) {
+      renameMutation.mutate({ id: bookmark.id, name });
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-col">
+      <form
+        onSubmit={handleAdd}
+        className="flex items-center gap-1 p-2 border-b border-gray-200"
+      >
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={`Bookmark page ${currentPage}`}
+          aria-label="Bookmark name"
+          className="flex-1 min-w-0 px-2 py-1 text-xs text-gray-900 border border-gray-300 rounded focus:border-purple-500 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={createMutation.isPending}
+          className="p-1 text-purple-700 bg-purple-50 rounded hover:bg-purple-100 disabled:opacity-50"
+          title="Add bookmark for the current page"
+        >
+          <BookmarkPlus className="w-4 h-4" />
+        </button>
+      </form>
+
+      {bookmarks.length === 0 ? (
+        <p className="px-3 py-6 text-xs text-center text-gray-500">
+          No bookmarks yet
+        </p>
+      ) : (
+        <ul className="py-1">
+          {bookmarks.map((bookmark) => (
+            <li
+              key={bookmark.id}
+              className={cn(
+                "group flex items-center gap-1 px-2 py-1 cursor-pointer hover:bg-gray-200",
+                bookmark.page === currentPage && "bg-purple-50"
+              )}
+              onClick={() =>
+                editingId !== bookmark.id && onPageChange(bookmark.page)
+              }
+            >
+              {editingId === bookmark.id ? (
+                <form
+                  className="flex flex-1 items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    submitRename(bookmark);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 px-1 py-0.5 text-xs text-gray-900 border border-gray-300 rounded focus:border-purple-500 focus:outline-none"
+                  />
+                  <button
+                    type="submit"
+                    className="p-0.5 text-green-600 bg-transparent rounded hover:bg-green-50"
+                    title="Save name"
+                  >
+                    <Check className="w-3 h-3" />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <span className="flex-1 min-w-0 text-xs text-gray-800 truncate">
+                    {bookmark.name}
+                  </span>
+                  <span className="text-xs text-gray-400">
+                    p. {bookmark.page}
+                  </span>
+                  <div className="flex opacity-0 group-hover:opacity-100">
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startEditing(bookmark);
+                      }}
+                      className="p-0.5 text-gray-500 bg-transparent rounded hover:bg-gray-300"
+                      title="Rename"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteMutation.mutate(bookmark);
+                      }}
+                      className="p-0.5 text-red-500 bg-transparent rounded hover:bg-red-50"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PDFBookmarksPanel;
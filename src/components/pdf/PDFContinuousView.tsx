@@ -0,0 +1,186 @@
+import React, {
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import type { PageSize } from "./PDFPageView";
+
+interface PDFContinuousViewProps {
+  numPages: number;
+  scale: number;
+  currentPage: number;
+  onPageChange: (page: number) => void;
+  scrollElement: HTMLElement | null;
+  // Unscaled sizes of pages measured so far
+  pageSizes: Record<number, PageSize>;
+  renderPage: (pageNumber: number) => React.ReactNode;
+}
+
+// US Letter, used until a page of the document has been measured
+const FALLBACK_PAGE_SIZE: PageSize = { width: 612, height: 792 };
+const PAGE_GAP = 16;
+const PADDING = 16;
+
+/**
+ * Vertically stacked pages where only those within a screen of the viewport
+ * are rendered; the rest are sized placeholders
+ */
+const PDFContinuousView: React.FC<PDFContinuousViewProps> = ({
+  numPages,
+  scale,
+  currentPage,
+  onPageChange,
+  scrollElement,
+  pageSizes,
+  renderPage,
+}) => {
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  // Last page this view reported, to tell scroll updates from outside jumps
+  const reportedPageRef = useRef<number | null>(null);
+  const lastScaleRef = useRef(scale);
+  const lastOffsetsRef = useRef<number[]>([]);
+
+  // Estimate unmeasured pages from the first measured one
+  const estimatedSize = useMemo(
+    () => Object.values(pageSizes)[0] ?? FALLBACK_PAGE_SIZE,
+    [pageSizes]
+  );
+
+  const layout = useMemo(() => {
+    const offsets: number[] = [];
+    const heights: number[] = [];
+    let top = PADDING;
+    let maxWidth = 0;
+    for (let page = 1; page <= numPages; page++) {
+      const size = pageSizes[page] ?? estimatedSize;
+      offsets.push(top);
+      heights.push(size.height * scale);
+      maxWidth = Math.max(maxWidth, size.width * scale);
+      top += size.height * scale + PAGE_GAP;
+    }
+    return {
+      offsets,
+      heights,
+      totalHeight: top - PAGE_GAP + PADDING,
+      totalWidth: maxWidth + PADDING * 2,
+    };
+  }, [numPages, pageSizes, estimatedSize, scale]);
+
+  // Keep the current page anchored while estimated page sizes are corrected
+  useLayoutEffect(() => {
+    const previousOffsets = lastOffsetsRef.current;
+    lastOffsetsRef.current = layout.offsets;
+    const page = reportedPageRef.current;
+    if (!scrollElement || page === null) return;
+
+    const previous = previousOffsets[page - 1];
+    const next = layout.offsets[page - 1];
+    if (previous !== undefined && next !== undefined && previous !== next) {
+      scrollElement.scrollTop += next - previous;
+    }
+  }, [layout.offsets, scrollElement]);
+
+  // Track the scroll position, at most once per frame
+  useEffect(() => {
+    if (!scrollElement) return;
+
+    let frame: number | null = null;
+    const update = () => {
+      frame = null;
+      setViewport({
+        top: scrollElement.scrollTop,
+        height: scrollElement.clientHeight,
+      });
+    };
+    const handleScroll = () => {
+      if (frame === null) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    scrollElement.addEventListener("scroll", handleScroll, { passive: true });
+    window.addEventListener("resize", handleScroll);
+    return () => {
+      scrollElement.removeEventListener("scroll", handleScroll);
+      window.removeEventListener("resize", handleScroll);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [scrollElement]);
+
+  // Scroll to the current page when it is changed from outside, and keep it
+  // in place when zooming
+  useEffect(() => {
+    if (!scrollElement) return;
+    const scaleChanged = lastScaleRef.current !== scale;
+    lastScaleRef.current = scale;
+    if (!scaleChanged && reportedPageRef.current === currentPage) return;
+
+    reportedPageRef.current = currentPage;
+    const offset = layout.offsets[currentPage - 1];
+    if (offset !== undefined) {
+      scrollElement.scrollTo({ top: offset - PADDING });
+    }
+  }, [currentPage, scale, scrollElement, layout.offsets]);
+
+  // Report the page taking up most of the viewport as current. Positions are
+  // read from the element since the layout may have moved it since the event.
+  useEffect(() => {
+    if (!scrollElement || viewport.height === 0 || numPages === 0) return;
+    const viewportTop = scrollElement.scrollTop;
+    const viewportBottom = viewportTop + scrollElement.clientHeight;
+    let page = 1;
+    let mostVisible = 0;
+    for (let candidate = 1; candidate <= numPages; candidate++) {
+      const top = layout.offsets[candidate - 1];
+      if (top > viewportBottom) break;
+      const visible =
+        Math.min(top + layout.heights[candidate - 1], viewportBottom) -
+        Math.max(top, viewportTop);
+      if (visible > mostVisible) {
+        mostVisible = visible;
+        page = candidate;
+      }
+    }
+    if (page !== reportedPageRef.current) {
+      reportedPageRef.current = page;
+      onPageChange(page);
+    }
+  }, [viewport, layout, numPages, onPageChange, scrollElement]);
+
+  // Render one screen of pages above and below the viewport
+  const buffer = viewport.height || window.innerHeight;
+  const visiblePages: number[] = [];
+  for (let page = 1; page <= numPages; page++) {
+    const top = layout.offsets[page - 1];
+    const bottom = top + layout.heights[page - 1];
+    if (
+      bottom >= viewport.top - buffer &&
+      top <= viewport.top + viewport.height + buffer
+    ) {
+      visiblePages.push(page);
+    }
+  }
+
+  return (
+    <div
+      className="relative mx-auto"
+      style={{ height: layout.totalHeight, minWidth: layout.totalWidth }}
+    >
+      {visiblePages.map((page) => (
+        <div
+          key={page}
+          className="absolute inset-x-0 flex justify-center"
+          style={{
+            top: layout.offsets[page - 1],
+            height: layout.heights[page - 1],
+          }}
+        >
+          {renderPage(page)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PDFContinuousView;
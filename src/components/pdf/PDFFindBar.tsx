@@ -0,0 +1,104 @@
+import React, { useEffect } from "react";
+import { ChevronDown, ChevronUp, Loader2, Search, X } from "lucide-react";
+
+interface PDFFindBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  matchCount: number;
+  // Zero-based index of the selected match
+  activeIndex: number;
+  isIndexing: boolean;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+  // Bumped by the viewer to move focus back into the input
+  focusRequest: number;
+  // Owned by the viewer so its shortcuts can tell the find input apart
+  inputRef: React.RefObject<HTMLInputElement | null>;
+}
+
+const PDFFindBar: React.FC<PDFFindBarProps> = ({
+  query,
+  onQueryChange,
+  matchCount,
+  activeIndex,
+  isIndexing,
+  onNext,
+  onPrevious,
+  onClose,
+  focusRequest,
+  inputRef,
+}) => {
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusRequest, inputRef]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onPrevious();
+      } else {
+        onNext();
+      }
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-200 bg-gray-50">
+      <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in document"
+        aria-label="Find in document"
+        className="flex-1 min-w-0 px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded focus:border-purple-500 focus:outline-none"
+      />
+      <span className="flex items-center gap-1 min-w-[72px] text-xs text-gray-500 justify-end">
+        {isIndexing && <Loader2 className="w-3 h-3 animate-spin" />}
+        {query.trim()
+          ? matchCount > 0
+            ? `${activeIndex + 1} of ${matchCount}`
+            : isIndexing
+            ? "Searching..."
+            : "No matches"
+          : null}
+      </span>
+      <button
+        type="button"
+        onClick={onPrevious}
+        disabled={matchCount === 0}
+        className="p-1 text-gray-600 bg-transparent rounded hover:bg-gray-200 disabled:opacity-40"
+        title="Previous match (Shift+Enter)"
+      >
+        <ChevronUp className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={onNext}
+        disabled={matchCount === 0}
+        className="p-1 text-gray-600 bg-transparent rounded hover:bg-gray-200 disabled:opacity-40"
+        title="Next match (Enter)"
+      >
+        <ChevronDown className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={onClose}
+        className="p-1 text-gray-600 bg-transparent rounded hover:bg-gray-200"
+        title="Close (Esc)"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default PDFFindBar;
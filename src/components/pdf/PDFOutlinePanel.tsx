@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+import type { PDFDocumentProxy } from "./PDFPageView";
+import { cn } from "../../utils/cn";
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number];
+
+interface PDFOutlinePanelProps {
+  pdf: PDFDocumentProxy | null;
+  onPageChange: (page: number) => void;
+}
+
+interface OutlineItemProps {
+  node: OutlineNode;
+  depth: number;
+  onSelect: (node: OutlineNode) => void;
+}
+
+/**
+ * Resolve an outline destination (named or explicit) to a page number
+ */
+const resolveDestinationPage = async (
+  pdf: PDFDocumentProxy,
+  dest: OutlineNode["dest"]
+): Promise<number | null> => {
+  const explicitDest =
+    typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+  if (!explicitDest || explicitDest.length === 0) return null;
+
+  const [target] = explicitDest;
+  // Targets are page references, or zero-based page indexes in some files
+  if (typeof target === "number") return target + 1;
+  return (await pdf.getPageIndex(target)) + 1;
+};
+
+const OutlineItem: React.FC<OutlineItemProps> = ({ node, depth, onSelect }) => {
+  const [isExpanded, setIsExpanded] = useState(depth === 0);
+  const hasChildren = node.items.length > 0;
+
+  return (
+    <li>
+      <div
+        className="flex items-center gap-1 pr-2 rounded hover:bg-gray-200"
+        style={{ paddingLeft: depth * 12 }}
+      >
+        {hasChildren ? (
+          <button
+            type="button"
+            onClick={() => setIsExpanded((open) => !open)}
+            className="p-0.5 text-gray-500 bg-transparent rounded"
+            aria-label={isExpanded ? "Collapse section" : "Expand section"}
+          >
+            {isExpanded ? (
+              <ChevronDown className="w-3 h-3" />
+            ) : (
+              <ChevronRight className="w-3 h-3" />
+            )}
+          </button>
+        ) : (
+          <span className="w-4 flex-shrink-0" />
+        )}
+        <button
+          type="button"
+          onClick={() => onSelect(node)}
+          disabled={!node.dest}
+          className={cn(
+            "flex-1 min-w-0 py-1 text-left text-xs text-gray-700 bg-transparent truncate disabled:cursor-default",
+            node.bold && "font-semibold",
+            node.italic && "italic"
+          )}
+          title={node.title}
+        >
+          {node.title}
+        </button>
+      </div>
+      {hasChildren && isExpanded && (
+        <ul>
+          {node.items.map((child: OutlineNode, index: number) => (
+            <OutlineItem
+              key={`${child.title}-${index}`}
+              node={child}
+              depth={depth + 1}
+              onSelect={onSelect}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+const PDFOutlinePanel: React.FC<PDFOutlinePanelProps> = ({
+  pdf,
+  onPageChange,
+}) => {
+  const [outline, setOutline] = useState<{
+    pdf: PDFDocumentProxy;
+    nodes: OutlineNode[];
+  } | null>(null);
+
+  useEffect(() => {
+    if (!pdf) return;
+
+    let cancelled = false;
+    pdf
+      .getOutline()
+      .then((nodes) => {
+        if (!cancelled) setOutline({ pdf, nodes: nodes ?? [] });
+      })
+      .catch((error) => {
+        console.error("❌ Failed to load PDF outline:", error);
+        if (!cancelled) setOutline({ pdf, nodes: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  const handleSelect = async (node: OutlineNode) => {
+    if (!pdf || !node.dest) return;
+    try {
+      const page = await resolveDestinationPage(pdf, node.dest);
+      if (page) onPageChange(page);
+    } catch (error) {
+      console.error("❌ Failed to resolve outline destination:", error);
+    }
+  };
+
+  if (!pdf || outline?.pdf !== pdf) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (outline.nodes.length === 0) {
+    return (
+      <p className="px-3 py-6 text-xs text-center text-gray-500">
+        This document has no outline
+      </p>
+    );
+  }
+
+  return (
+    <ul className="px-1 py-2">
+      {outline.nodes.map((node, index) => (
+        <OutlineItem
+          key={`${node.title}-${index}`}
+          node={node}
+          depth={0}
+          onSelect={handleSelect}
+        />
+      ))}
+    </ul>
+  );
+};
+
+export default PDFOutlinePanel;
@@ -0,0 +1,94 @@
+import React, { useCallback } from "react";
+import { Page, type DocumentProps, type PageProps } from "react-pdf";
+import {
+  buildPageTextIndex,
+  renderHighlightedItem,
+  type HighlightRange,
+  type PageTextIndex,
+} from "../../utils/textLayer";
+
+type TextRenderer = NonNullable<PageProps["customTextRenderer"]>;
+type GetTextSuccessHandler = NonNullable<PageProps["onGetTextSuccess"]>;
+type LoadSuccessHandler = NonNullable<PageProps["onLoadSuccess"]>;
+
+// pdf.js document as loaded by react-pdf's bundled pdfjs-dist
+export type PDFDocumentProxy = Parameters<
+  NonNullable<DocumentProps["onLoadSuccess"]>
+>[0];
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+interface PDFPageViewProps {
+  pageNumber: number;
+  scale: number;
+  textIndex?: PageTextIndex;
+  highlights: HighlightRange[];
+  onTextIndexed: (pageNumber: number, index: PageTextIndex) => void;
+  onTextLayerRendered: (pageNumber: number) => void;
+  // Unscaled page size, reported once the page has loaded
+  onPageSize?: (pageNumber: number, size: PageSize) => void;
+}
+
+/**
+ * A single PDF page with a text layer that can highlight ranges of its text
+ */
+const PDFPageView: React.FC<PDFPageViewProps> = ({
+  pageNumber,
+  scale,
+  textIndex,
+  highlights,
+  onTextIndexed,
+  onTextLayerRendered,
+  onPageSize,
+}) => {
+  const handleGetTextSuccess = useCallback<GetTextSuccessHandler>(
+    (textContent) => {
+      onTextIndexed(pageNumber, buildPageTextIndex(textContent.items));
+    },
+    [pageNumber, onTextIndexed]
+  );
+
+  const handleLoadSuccess = useCallback<LoadSuccessHandler>(
+    (page) => {
+      onPageSize?.(pageNumber, {
+        width: page.originalWidth,
+        height: page.originalHeight,
+      });
+    },
+    [pageNumber, onPageSize]
+  );
+
+  const renderTextItem = useCallback<TextRenderer>(
+    ({ str, itemIndex }) =>
+      renderHighlightedItem(
+        str,
+        textIndex?.itemRanges[itemIndex] ?? null,
+        highlights
+      ),
+    [textIndex, highlights]
+  );
+
+  return (
+    <Page
+      pageNumber={pageNumber}
+      scale={scale}
+      className="shadow-lg"
+      renderTextLayer={true}
+      customTextRenderer={renderTextItem}
+      onGetTextSuccess={handleGetTextSuccess}
+      onLoadSuccess={handleLoadSuccess}
+      onRenderTextLayerSuccess={() => onTextLayerRendered(pageNumber)}
+      renderAnnotationLayer={false}
+      loading={
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600"></div>
+        </div>
+      }
+    />
+  );
+};
+
+export default PDFPageView;
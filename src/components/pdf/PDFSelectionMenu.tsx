@@ -0,0 +1,63 @@
+import React from "react";
+import {
+  BookOpen,
+  FileSearch,
+  ListCollapse,
+  MessageSquareQuote,
+} from "lucide-react";
+import type { PassageAction } from "../../types";
+
+interface PDFSelectionMenuProps {
+  // Viewport rectangle of the selected text
+  anchorRect: DOMRect;
+  onAction: (action: PassageAction) => void;
+}
+
+const ACTIONS: { id: PassageAction; label: string; icon: React.ElementType }[] =
+  [
+    { id: "ask", label: "Ask about this", icon: MessageSquareQuote },
+    { id: "explain", label: "Explain", icon: BookOpen },
+    { id: "summarize", label: "Summarize", icon: ListCollapse },
+    { id: "related", label: "Find related passages", icon: FileSearch },
+  ];
+
+const MENU_OFFSET = 8;
+
+const PDFSelectionMenu: React.FC<PDFSelectionMenuProps> = ({
+  anchorRect,
+  onAction,
+}) => {
+  // Show below the selection, or above it when too close to the bottom
+  const showAbove = anchorRect.bottom + 56 > window.innerHeight;
+
+  return (
+    <div
+      role="menu"
+      className="fixed z-50 flex items-center gap-1 p-1 bg-white border border-gray-200 rounded-lg shadow-lg"
+      style={{
+        left: anchorRect.left + anchorRect.width / 2,
+        top: showAbove
+          ? anchorRect.top - MENU_OFFSET
+          : anchorRect.bottom + MENU_OFFSET,
+        transform: showAbove ? "translate(-50%, -100%)" : "translateX(-50%)",
+      }}
+      // Keep the text selected while clicking the menu
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {ACTIONS.map(({ id, label, icon: Icon }) => (
+        <button
+          key={id}
+          type="button"
+          role="menuitem"
+          onClick={() => onAction(id)}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 bg-transparent rounded whitespace-nowrap hover:bg-purple-50 hover:text-purple-700"
+        >
+          <Icon className="w-3 h-3" />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default PDFSelectionMenu;
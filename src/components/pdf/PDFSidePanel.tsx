@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import { Bookmark, LayoutGrid, ListTree } from "lucide-react";
+import PDFThumbnailRail from "./PDFThumbnailRail";
+import PDFOutlinePanel from "./PDFOutlinePanel";
+import PDFBookmarksPanel from "./PDFBookmarksPanel";
+import type { PDFDocumentProxy } from "./PDFPageView";
+import { cn } from "../../utils/cn";
+
+interface PDFSidePanelProps {
+  documentId: string;
+  pdf: PDFDocumentProxy | null;
+  numPages: number;
+  currentPage: number;
+  citedPages?: number[];
+  onPageChange: (page: number) => void;
+}
+
+type SidePanelTab = "pages" | "outline" | "bookmarks";
+
+const TABS: { id: SidePanelTab; label: string; icon: React.ElementType }[] = [
+  { id: "pages", label: "Pages", icon: LayoutGrid },
+  { id: "outline", label: "Outline", icon: ListTree },
+  { id: "bookmarks", label: "Bookmarks", icon: Bookmark },
+];
+
+const PDFSidePanel: React.FC<PDFSidePanelProps> = ({
+  documentId,
+  pdf,
+  numPages,
+  currentPage,
+  citedPages,
+  onPageChange,
+}) => {
+  const [tab, setTab] = useState<SidePanelTab>("pages");
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col flex-shrink-0 border-r border-gray-200 bg-gray-50",
+        tab === "pages" ? "w-32" : "w-64"
+      )}
+    >
+      <div className="flex border-b border-gray-200">
+        {TABS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setTab(id)}
+            className={cn(
+              "flex flex-1 justify-center py-2 bg-transparent",
+              tab === id
+                ? "text-purple-700 border-b-2 border-purple-600"
+                : "text-gray-500 hover:text-gray-700"
+            )}
+            title={label}
+            aria-label={label}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+
+      {tab === "pages" ? (
+        <PDFThumbnailRail
+          numPages={numPages}
+          currentPage={currentPage}
+          citedPages={citedPages}
+          onPageChange={onPageChange}
+        />
+      ) : (
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          {tab === "outline" ? (
+            <PDFOutlinePanel pdf={pdf} onPageChange={onPageChange} />
+          ) : (
+            <PDFBookmarksPanel
+              documentId={documentId}
+              currentPage={currentPage}
+              onPageChange={onPageChange}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PDFSidePanel;
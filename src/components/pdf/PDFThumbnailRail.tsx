@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Thumbnail } from "react-pdf";
+import { Quote } from "lucide-react";
+import { PDF_VIEWER_CONFIG } from "../../utils/constants";
+import { cn } from "../../utils/cn";
+
+interface PDFThumbnailRailProps {
+  numPages: number;
+  currentPage: number;
+  citedPages?: number[];
+  onPageChange: (page: number) => void;
+}
+
+interface ThumbnailItemProps {
+  pageNumber: number;
+  isCurrent: boolean;
+  isCited: boolean;
+  root: HTMLElement | null;
+  onSelect: (page: number) => void;
+}
+
+// Placeholder height for pages that haven't been rendered yet (US Letter ratio)
+const PLACEHOLDER_HEIGHT = Math.round(PDF_VIEWER_CONFIG.THUMBNAIL_WIDTH * 1.294);
+
+const ThumbnailItem: React.FC<ThumbnailItemProps> = ({
+  pageNumber,
+  isCurrent,
+  isCited,
+  root,
+  onSelect,
+}) => {
+  const itemRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  // Only render the page once it scrolls near the rail's viewport
+  useEffect(() => {
+    const element = itemRef.current;
+    if (!element || isVisible) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      },
+      { root, rootMargin: "200px 0px" }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [root, isVisible]);
+
+  // Keep the current page visible in the rail
+  useEffect(() => {
+    if (isCurrent) {
+      itemRef.current?.scrollIntoView({ block: "nearest" });
+    }
+  }, [isCurrent]);
+
+  return (
+    <div
+      ref={itemRef}
+      className="relative flex flex-col items-center gap-1 w-full p-1 rounded hover:bg-gray-200"
+      title={isCited ? `Page ${pageNumber} (cited)` : `Page ${pageNumber}`}
+    >
+      <div
+        className={cn(
+          "bg-white border-2 shadow-sm",
+          isCurrent ? "border-purple-600" : "border-transparent"
+        )}
+        style={{
+          width: PDF_VIEWER_CONFIG.THUMBNAIL_WIDTH,
+          minHeight: isVisible ? undefined : PLACEHOLDER_HEIGHT,
+        }}
+      >
+        {isVisible && (
+          <Thumbnail
+            pageNumber={pageNumber}
+            width={PDF_VIEWER_CONFIG.THUMBNAIL_WIDTH - 4}
+            onItemClick={() => onSelect(pageNumber)}
+            loading={<div style={{ height: PLACEHOLDER_HEIGHT }} />}
+          />
+        )}
+      </div>
+      {isCited && (
+        <span className="absolute top-2 right-2 flex items-center justify-center w-5 h-5 rounded-full bg-yellow-400 text-yellow-900 shadow">
+          <Quote className="w-3 h-3" />
+        </span>
+      )}
+      <span
+        className={cn(
+          "text-xs",
+          isCurrent ? "font-semibold text-purple-700" : "text-gray-600"
+        )}
+      >
+        {pageNumber}
+      </span>
+    </div>
+  );
+};
+
+const PDFThumbnailRail: React.FC<PDFThumbnailRailProps> = ({
+  numPages,
+  currentPage,
+  citedPages = [],
+  onPageChange,
+}) => {
+  // Stored in state so thumbnails observe the rail once it has mounted
+  const [railElement, setRailElement] = useState<HTMLDivElement | null>(null);
+
+  return (
+    <div
+      ref={setRailElement}
+      className="flex-1 min-h-0 overflow-y-auto px-2 py-3 space-y-2"
+    >
+      {railElement &&
+        Array.from({ length: numPages }, (_, index) => index + 1).map(
+          (pageNumber) => (
+            <ThumbnailItem
+              key={pageNumber}
+              pageNumber={pageNumber}
+              isCurrent={pageNumber === currentPage}
+              isCited={citedPages.includes(pageNumber)}
+              root={railElement}
+              onSelect={onPageChange}
+            />
+          )
+        )}
+    </div>
+  );
+};
+
+export default PDFThumbnailRail;
@@ -2,56 +2,58 @@ import React, { useCallback, useState } from "react";
 import { useDropzone, type FileRejection } from "react-dropzone";
 import { Upload } from "lucide-react";
 import { Button } from "../ui/Button";
+import UploadQueue from "./UploadQueue";
 import type { PDFUploaderProps } from "../../types";
-import { validateFile } from "../../utils/helpers";
-import { UI_MESSAGES } from "../../utils/constants";
+import { formatFileSize, validateFile } from "../../utils/helpers";
+import { MAX_FILE_SIZE, UI_MESSAGES } from "../../utils/constants";
 import { cn } from "../../utils/cn";
 
 const PDFUploader: React.FC<PDFUploaderProps> = ({
-  onFileUpload,
-  isUploading,
-  progress,
+  onFilesUpload,
+  queue = [],
+  onRetryItem,
+  onUploadAnyway,
+  onRemoveItem,
+  onOpenItem,
+  onClearFinished,
 }) => {
   const [error, setError] = useState<string | null>(null);
 
   const onDrop = useCallback(
     (acceptedFiles: File[], rejectedFiles: FileRejection[]) => {
-      setError(null);
-
-      if (rejectedFiles.length > 0) {
-        // Show specific error message based on rejection reason
-        const firstRejection = rejectedFiles[0];
-        const errorCode = firstRejection.errors[0]?.code;
-        let errorMessage = "Please select a valid PDF file";
+      const errors: string[] = [];
 
+      // Report each rejected file but still queue the valid ones
+      rejectedFiles.forEach(({ file, errors: rejection }) => {
+        const errorCode = rejection[0]?.code;
         if (errorCode === "file-too-large") {
-          errorMessage = `File is too large. Size: ${(
-            firstRejection.file.size /
-            (1024 * 1024)
-          ).toFixed(1)}MB`;
+          errors.push(
+            `${file.name} is too large (${formatFileSize(
+              file.size
+            )}, limit ${formatFileSize(MAX_FILE_SIZE)})`
+          );
         } else if (errorCode === "file-invalid-type") {
-          errorMessage = "Please upload a PDF file only";
+          errors.push(`${file.name} is not a PDF file`);
+        } else {
+          errors.push(`${file.name} is not a valid PDF file`);
         }
+      });
 
-        setError(errorMessage);
-        return;
-      }
-
-      if (acceptedFiles.length === 0) {
-        return;
-      }
+      const validFiles = acceptedFiles.filter((file) => {
+        const validation = validateFile(file);
+        if (!validation.isValid) {
+          errors.push(`${file.name}: ${validation.error || "Invalid file"}`);
+        }
+        return validation.isValid;
+      });
 
-      const file = acceptedFiles[0];
-      const validation = validateFile(file);
+      setError(errors.length > 0 ? errors.join(". ") : null);
 
-      if (!validation.isValid) {
-        setError(validation.error || "Invalid file");
-        return;
+      if (validFiles.length > 0) {
+        onFilesUpload(validFiles);
       }
-
-      onFileUpload(file);
     },
-    [onFileUpload]
+    [onFilesUpload]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -59,29 +61,26 @@ const PDFUploader: React.FC<PDFUploaderProps> = ({
     accept: {
       "application/pdf": [".pdf"],
     },
-    multiple: false,
-    disabled: isUploading,
+    multiple: true,
     noClick: false,
     noKeyboard: false,
-    maxSize: undefined, // Remove size limit entirely
+    maxSize: MAX_FILE_SIZE,
   });
 
+  const activeCount = queue.filter((item) =>
+    ["queued", "checking", "uploading"].includes(item.status)
+  ).length;
+
   const getStatusMessage = () => {
     if (error) return error;
-    if (progress?.status === "uploading")
-      return `${UI_MESSAGES.UPLOAD.UPLOADING} ${progress.percentage}%`;
-    if (progress?.status === "processing") return UI_MESSAGES.UPLOAD.PROCESSING;
-    if (progress?.status === "complete") return UI_MESSAGES.UPLOAD.SUCCESS;
-    if (progress?.status === "error")
-      return progress.message || UI_MESSAGES.UPLOAD.ERROR;
+    if (activeCount > 0)
+      return `Uploading ${activeCount} ${activeCount === 1 ? "file" : "files"}...`;
     return UI_MESSAGES.UPLOAD.DRAG_DROP;
   };
 
   const getStatusColor = () => {
-    if (error || progress?.status === "error") return "text-red-600";
-    if (progress?.status === "complete") return "text-green-600";
-    if (progress?.status === "uploading" || progress?.status === "processing")
-      return "text-purple-600";
+    if (error) return "text-red-600";
+    if (activeCount > 0) return "text-purple-600";
     return "text-gray-600";
   };
 
@@ -96,8 +95,7 @@ const PDFUploader: React.FC<PDFUploaderProps> = ({
             "min-h-[400px] p-12",
             isDragActive
               ? "border-blue-400 bg-blue-50"
-              : "border-gray-300 bg-white hover:border-gray-400 hover:bg-gray-50",
-            isUploading && "pointer-events-none opacity-50"
+              : "border-gray-300 bg-white hover:border-gray-400 hover:bg-gray-50"
           )}
         >
           <input {...getInputProps()} />
@@ -109,34 +107,35 @@ const PDFUploader: React.FC<PDFUploaderProps> = ({
 
           {/* Upload Text */}
           <h3 className="text-lg font-medium text-gray-900 mb-2">
-            Upload PDF to start chatting
+            Upload PDFs to start chatting
           </h3>
 
           <p className={cn("text-sm mb-4", getStatusColor())}>
             {getStatusMessage()}
           </p>
 
-          {/* Progress Bar */}
-          {progress && progress.status === "uploading" && (
-            <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
-              <div
-                className="bg-purple-600 h-2 rounded-full transition-all duration-300"
-                style={{ width: `${progress.percentage}%` }}
-              />
-            </div>
-          )}
-
-          {!isUploading && (
-            <Button variant="primary" size="sm">
-              Choose File
-            </Button>
-          )}
+          <Button variant="primary" size="sm">
+            Choose Files
+          </Button>
         </div>
 
         {/* File Requirements */}
         <div className="mt-4 text-xs text-gray-500 text-center">
-          <p>Supported format: PDF</p>
+          <p>
+            Supported format: PDF with selectable text, up to{" "}
+            {formatFileSize(MAX_FILE_SIZE)}. Drop several files to upload them
+            together.
+          </p>
         </div>
+
+        <UploadQueue
+          items={queue}
+          onRetry={onRetryItem}
+          onUploadAnyway={onUploadAnyway}
+          onRemove={onRemoveItem}
+          onOpen={onOpenItem}
+          onClearFinished={onClearFinished}
+        />
       </div>
     </div>
   );
@@ -1,12 +1,78 @@
-import React, { useState } from "react";
-import { Document, Page, pdfjs } from "react-pdf";
-import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from "lucide-react";
-import type { PDFViewerProps } from "../../types";
+import React, {
+  useState,
+  useMemo,
+  useCallback,
+  useRef,
+  useEffect,
+} from "react";
+import { Document, pdfjs } from "react-pdf";
+import "react-pdf/dist/Page/TextLayer.css";
+import {
+  ChevronLeft,
+  ChevronRight,
+  File,
+  PanelLeftClose,
+  PanelLeftOpen,
+  ScrollText,
+  Search,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import type { PDFViewerProps, SelectedPassage } from "../../types";
 import { Button } from "../ui/Button";
-import { PDF_VIEWER_CONFIG, UI_MESSAGES } from "../../utils/constants";
+import PDFSidePanel from "./PDFSidePanel";
+import PDFPageView, {
+  type PageSize,
+  type PDFDocumentProxy,
+} from "./PDFPageView";
+import PDFContinuousView from "./PDFContinuousView";
+import PDFFindBar from "./PDFFindBar";
+import PDFSelectionMenu from "./PDFSelectionMenu";
+import {
+  CHAT_CONFIG,
+  PDF_VIEWER_CONFIG,
+  UI_MESSAGES,
+} from "../../utils/constants";
+import {
+  buildPageTextIndex,
+  findAllMatches,
+  resolveCitationRange,
+  CITATION_HIGHLIGHT_CLASS,
+  FIND_ACTIVE_MATCH_CLASS,
+  FIND_MATCH_CLASS,
+  type HighlightRange,
+  type PageTextIndex,
+} from "../../utils/textLayer";
 
 // Set up PDF.js worker - use local worker file to avoid CDN issues
-pdfjs.GlobalWorkerOptions.workerSrc = "/pdf.worker.min.js";
+pdfjs.GlobalWorkerOptions.workerSrc = PDF_VIEWER_CONFIG.WORKER_SRC;
+
+type ViewMode = "single" | "continuous";
+
+interface FindMatch {
+  page: number;
+  start: number;
+  end: number;
+}
+
+// Element to bring into view once its page's text layer has rendered
+interface ScrollTarget {
+  key: unknown;
+  page: number;
+  className: string;
+}
+
+// Per-page data collected while rendering, dropped when the document changes
+interface DocumentPageData<T> {
+  documentId: string | null;
+  pages: Record<number, T>;
+}
+
+const NO_HIGHLIGHTS: HighlightRange[] = [];
+const NO_TEXT_INDEXES: Record<number, PageTextIndex> = {};
+const NO_PAGE_SIZES: Record<number, PageSize> = {};
+// Pages extracted per state update while indexing the document for find
+const TEXT_INDEX_BATCH_SIZE = 10;
 
 const PDFViewer: React.FC<PDFViewerProps> = ({
   document,
@@ -15,9 +81,53 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
   scale,
   onScaleChange,
   onDocumentLoad,
+  highlightedCitation = null,
+  citedPages = [],
+  onPassageAction,
 }) => {
   const [numPages, setNumPages] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
+  const [showSidePanel, setShowSidePanel] = useState(true);
+  // Text typed into the go-to-page box, null while it mirrors the current page
+  const [pageDraft, setPageDraft] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>("single");
+  const [textIndexes, setTextIndexes] = useState<
+    DocumentPageData<PageTextIndex>
+  >({ documentId: null, pages: {} });
+  const [pageSizes, setPageSizes] = useState<DocumentPageData<PageSize>>({
+    documentId: null,
+    pages: {},
+  });
+  // Scroll container, kept in state so the continuous view can listen to it
+  const [contentElement, setContentElement] = useState<HTMLDivElement | null>(
+    null
+  );
+  const [pdf, setPdf] = useState<{
+    documentId: string | null;
+    proxy: PDFDocumentProxy;
+  } | null>(null);
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [findQuery, setFindQuery] = useState("");
+  // Selected match, or null to pick the first one from where the search began
+  const [activeMatchIndex, setActiveMatchIndex] = useState<number | null>(null);
+  const [findStartPage, setFindStartPage] = useState(1);
+  const [findFocusRequest, setFindFocusRequest] = useState(0);
+  const [selection, setSelection] = useState<{
+    passage: SelectedPassage;
+    rect: DOMRect;
+  } | null>(null);
+  // Target last scrolled into view, so re-rendered pages don't jump again
+  const scrolledTargetRef = useRef<{ key: unknown; scale: number } | null>(
+    null
+  );
+  const jumpedMatchKeyRef = useRef<string | null>(null);
+  const findInputRef = useRef<HTMLInputElement>(null);
+
+  const documentId = document?.id ?? null;
+  const pageTexts =
+    textIndexes.documentId === documentId ? textIndexes.pages : NO_TEXT_INDEXES;
+  const measuredPageSizes =
+    pageSizes.documentId === documentId ? pageSizes.pages : NO_PAGE_SIZES;
 
   // Debug logging for document object
   React.useEffect(() => {
@@ -30,12 +140,14 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
     });
   }, [document]);
 
-  const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
+  const onDocumentLoadSuccess = (proxy: PDFDocumentProxy) => {
+    const { numPages } = proxy;
     console.log("PDF loaded successfully:", {
       numPages,
       documentUrl: document?.url,
     });
     setNumPages(numPages);
+    setPdf({ documentId, proxy });
     setError(null);
     if (onDocumentLoad) {
       onDocumentLoad(numPages);
@@ -46,6 +158,315 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
     setError(`Failed to load PDF: ${error.message}`);
   };
 
+  // Index the text of pages so citations and find matches can be located
+  const mergeTextIndexes = useCallback(
+    (indexes: Record<number, PageTextIndex>) => {
+      setTextIndexes((prev) => {
+        const pages = prev.documentId === documentId ? prev.pages : {};
+        const added = Object.keys(indexes).filter((page) => !pages[+page]);
+        if (added.length === 0) return prev;
+        return { documentId, pages: { ...indexes, ...pages } };
+      });
+    },
+    [documentId]
+  );
+
+  const handleTextIndexed = useCallback(
+    (pageNumber: number, index: PageTextIndex) =>
+      mergeTextIndexes({ [pageNumber]: index }),
+    [mergeTextIndexes]
+  );
+
+  // Extract the text of every page with pdf.js while the find bar is open,
+  // so searching works without the backend
+  const documentPdf = pdf?.documentId === documentId ? pdf.proxy : null;
+  const isFullyIndexed =
+    numPages > 0 && Object.keys(pageTexts).length >= numPages;
+  useEffect(() => {
+    if (!isFindOpen || !documentPdf || isFullyIndexed) return;
+
+    let cancelled = false;
+    const extract = async () => {
+      let batch: Record<number, PageTextIndex> = {};
+      for (let page = 1; page <= documentPdf.numPages; page++) {
+        const pdfPage = await documentPdf.getPage(page);
+        const textContent = await pdfPage.getTextContent();
+        if (cancelled) return;
+        batch[page] = buildPageTextIndex(textContent.items);
+        if (
+          page % TEXT_INDEX_BATCH_SIZE === 0 ||
+          page === documentPdf.numPages
+        ) {
+          mergeTextIndexes(batch);
+          batch = {};
+        }
+      }
+    };
+
+    extract().catch((error) => {
+      console.error("❌ Failed to extract PDF text for find:", error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isFindOpen, documentPdf, isFullyIndexed, mergeTextIndexes]);
+
+  const findMatches = useMemo<FindMatch[]>(() => {
+    if (!isFindOpen || !findQuery.trim()) return [];
+    const matches: FindMatch[] = [];
+    for (let page = 1; page <= numPages; page++) {
+      const index = pageTexts[page];
+      if (!index) continue;
+      findAllMatches(index.text, findQuery).forEach((range) =>
+        matches.push({ page, ...range })
+      );
+    }
+    return matches;
+  }, [isFindOpen, findQuery, pageTexts, numPages]);
+
+  // Without an explicit selection, wait until a match at or after the start
+  // page is found (or indexing ends) so the viewer doesn't jump around
+  const firstMatchFromStart = findMatches.findIndex(
+    (match) => match.page >= findStartPage
+  );
+  const resolvedMatchIndex =
+    findMatches.length === 0
+      ? -1
+      : activeMatchIndex !== null
+      ? Math.min(activeMatchIndex, findMatches.length - 1)
+      : firstMatchFromStart !== -1
+      ? firstMatchFromStart
+      : isFullyIndexed
+      ? 0
+      : -1;
+  const activeMatch =
+    resolvedMatchIndex >= 0 ? findMatches[resolvedMatchIndex] : null;
+  const activeMatchKey = activeMatch
+    ? `${findQuery}:${activeMatch.page}:${activeMatch.start}`
+    : null;
+
+  const handlePageSize = useCallback(
+    (pageNumber: number, size: PageSize) => {
+      setPageSizes((prev) => {
+        const pages = prev.documentId === documentId ? prev.pages : {};
+        if (pages[pageNumber]) return prev;
+        return { documentId, pages: { ...pages, [pageNumber]: size } };
+      });
+    },
+    [documentId]
+  );
+
+  // Resolve the highlighted passage once the cited page's text is available
+  const citationHighlight = useMemo(() => {
+    if (
+      !highlightedCitation ||
+      (highlightedCitation.documentId &&
+        highlightedCitation.documentId !== documentId)
+    ) {
+      return null;
+    }
+
+    const index = pageTexts[highlightedCitation.page];
+    const range = index && resolveCitationRange(highlightedCitation, index);
+    return range
+      ? {
+          page: highlightedCitation.page,
+          ranges: [{ ...range, className: CITATION_HIGHLIGHT_CLASS }],
+        }
+      : null;
+  }, [highlightedCitation, pageTexts, documentId]);
+
+  const highlightsByPage = useMemo(() => {
+    const byPage = new Map<number, HighlightRange[]>();
+    const add = (page: number, range: HighlightRange) =>
+      byPage.set(page, [...(byPage.get(page) ?? []), range]);
+
+    citationHighlight?.ranges.forEach((range) =>
+      add(citationHighlight.page, range)
+    );
+    findMatches.forEach((match) =>
+      add(match.page, {
+        start: match.start,
+        end: match.end,
+        className:
+          match === activeMatch ? FIND_ACTIVE_MATCH_CLASS : FIND_MATCH_CLASS,
+      })
+    );
+    return byPage;
+  }, [citationHighlight, findMatches, activeMatch]);
+
+  const getPageHighlights = useCallback(
+    (pageNumber: number) => highlightsByPage.get(pageNumber) ?? NO_HIGHLIGHTS,
+    [highlightsByPage]
+  );
+
+  // The selected find match takes precedence over the cited passage
+  const scrollTarget = useMemo<ScrollTarget | null>(() => {
+    if (activeMatch) {
+      return {
+        key: activeMatchKey,
+        page: activeMatch.page,
+        className: FIND_ACTIVE_MATCH_CLASS,
+      };
+    }
+    if (citationHighlight) {
+      return {
+        key: citationHighlight,
+        page: citationHighlight.page,
+        className: CITATION_HIGHLIGHT_CLASS,
+      };
+    }
+    return null;
+  }, [activeMatch, activeMatchKey, citationHighlight]);
+
+  // Bring the target into view once its text layer is rendered, and again
+  // after zooming
+  const handleTextLayerRendered = useCallback(
+    (pageNumber: number) => {
+      if (!scrollTarget || scrollTarget.page !== pageNumber) return;
+      const scrolled = scrolledTargetRef.current;
+      if (
+        scrolled &&
+        scrolled.key === scrollTarget.key &&
+        scrolled.scale === scale
+      ) {
+        return;
+      }
+
+      const mark = contentElement?.querySelector(
+        `mark.${scrollTarget.className}`
+      );
+      if (!mark) return;
+      scrolledTargetRef.current = { key: scrollTarget.key, scale };
+      mark.scrollIntoView({ behavior: "smooth", block: "center" });
+    },
+    [scrollTarget, contentElement, scale]
+  );
+
+  // Turn to the page of a newly selected match
+  useEffect(() => {
+    if (!activeMatch || activeMatchKey === jumpedMatchKeyRef.current) return;
+    jumpedMatchKeyRef.current = activeMatchKey;
+    if (activeMatch.page !== currentPage) {
+      onPageChange(activeMatch.page);
+    }
+  }, [activeMatch, activeMatchKey, currentPage, onPageChange]);
+
+  const openFind = useCallback(() => {
+    setIsFindOpen(true);
+    setFindFocusRequest((request) => request + 1);
+  }, []);
+
+  const handleFindQueryChange = (query: string) => {
+    setFindQuery(query);
+    setActiveMatchIndex(null);
+    setFindStartPage(currentPage);
+  };
+
+  const handleCloseFind = () => {
+    setIsFindOpen(false);
+    setActiveMatchIndex(null);
+    jumpedMatchKeyRef.current = null;
+  };
+
+  const stepMatch = (step: number) => {
+    if (findMatches.length === 0) return;
+    const from =
+      resolvedMatchIndex === -1 ? (step > 0 ? -1 : 0) : resolvedMatchIndex;
+    setActiveMatchIndex(
+      (from + step + findMatches.length) % findMatches.length
+    );
+  };
+
+  // Offer passage actions for text selected inside a page's text layer
+  const handleContentMouseUp = () => {
+    if (!onPassageAction || !document) return;
+
+    const domSelection = window.getSelection();
+    const text = domSelection?.toString().replace(/\s+/g, " ").trim();
+    if (!domSelection || !text || domSelection.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+
+    const range = domSelection.getRangeAt(0);
+    const startNode = range.startContainer;
+    const startElement =
+      startNode instanceof Element ? startNode : startNode.parentElement;
+    const pageElement = startElement?.closest<HTMLElement>(
+      ".react-pdf__Page"
+    );
+    const page = Number(pageElement?.dataset.pageNumber);
+    if (!pageElement || !contentElement?.contains(pageElement) || !page) {
+      setSelection(null);
+      return;
+    }
+
+    setSelection({
+      passage: {
+        text: text.slice(0, CHAT_CONFIG.MAX_PASSAGE_LENGTH),
+        page,
+        documentId: document.id,
+        documentTitle: document.name,
+      },
+      rect: range.getBoundingClientRect(),
+    });
+  };
+
+  // Drop the menu once the selection is cleared or the pages scroll away
+  useEffect(() => {
+    if (!selection) return;
+    const close = () => setSelection(null);
+    const handleSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) close();
+    };
+    window.document.addEventListener("selectionchange", handleSelectionChange);
+    contentElement?.addEventListener("scroll", close);
+    return () => {
+      window.document.removeEventListener(
+        "selectionchange",
+        handleSelectionChange
+      );
+      contentElement?.removeEventListener("scroll", close);
+    };
+  }, [selection, contentElement]);
+
+  // Ctrl/Cmd+F opens the find bar instead of the browser's page search,
+  // except while typing elsewhere, e.g. in the chat input. In the find bar
+  // itself it selects the query again.
+  useEffect(() => {
+    if (!documentId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (
+        target !== findInputRef.current &&
+        (target?.isContentEditable ||
+          target instanceof HTMLInputElement ||
+          target instanceof HTMLTextAreaElement)
+      ) {
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "f") {
+        e.preventDefault();
+        openFind();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [documentId, openFind]);
+
+  const renderPage = (pageNumber: number) => (
+    <PDFPageView
+      pageNumber={pageNumber}
+      scale={scale}
+      textIndex={pageTexts[pageNumber]}
+      highlights={getPageHighlights(pageNumber)}
+      onTextIndexed={handleTextIndexed}
+      onTextLayerRendered={handleTextLayerRendered}
+      onPageSize={handlePageSize}
+    />
+  );
+
   const handlePreviousPage = () => {
     if (currentPage > 1) {
       onPageChange(currentPage - 1);
@@ -58,6 +479,15 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
     }
   };
 
+  const handleGoToPage = (e: React.FormEvent) => {
+    e.preventDefault();
+    const page = Number.parseInt(pageDraft ?? "", 10);
+    if (!Number.isNaN(page) && numPages > 0) {
+      onPageChange(Math.min(Math.max(page, 1), numPages));
+    }
+    setPageDraft(null);
+  };
+
   const handleZoomIn = () => {
     const newScale = Math.min(
       scale + PDF_VIEWER_CONFIG.SCALE_STEP,
@@ -107,7 +537,19 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
     <div className="flex flex-col h-full bg-white">
       {/* Header with controls */}
       <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-white">
-        <div className="flex items-center space-x-4">
+        <div className="flex items-center space-x-4 min-w-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowSidePanel((open) => !open)}
+            title={showSidePanel ? "Hide side panel" : "Show side panel"}
+          >
+            {showSidePanel ? (
+              <PanelLeftClose className="w-4 h-4" />
+            ) : (
+              <PanelLeftOpen className="w-4 h-4" />
+            )}
+          </Button>
           <h2 className="text-lg font-semibold text-gray-900">
             {document.name}
           </h2>
@@ -125,9 +567,25 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
             <ChevronLeft className="w-4 h-4" />
           </Button>
 
-          <span className="text-sm text-gray-600 min-w-[80px] text-center">
-            {numPages > 0 ? `${currentPage} / ${numPages}` : "--"}
-          </span>
+          <form
+            onSubmit={handleGoToPage}
+            className="flex items-center gap-1 text-sm text-gray-600"
+          >
+            <input
+              type="text"
+              inputMode="numeric"
+              aria-label="Go to page"
+              value={pageDraft ?? (numPages > 0 ? String(currentPage) : "")}
+              onChange={(e) => setPageDraft(e.target.value.replace(/\D/g, ""))}
+              onBlur={handleGoToPage}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setPageDraft(null);
+              }}
+              disabled={numPages === 0}
+              className="w-12 px-1 py-0.5 text-center text-gray-900 border border-gray-300 rounded focus:border-purple-500 focus:outline-none"
+            />
+            <span>/ {numPages > 0 ? numPages : "--"}</span>
+          </form>
 
           <Button
             variant="outline"
@@ -140,6 +598,36 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
         </div>
 
         <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={openFind}
+            title="Find in document (Ctrl+F)"
+          >
+            <Search className="w-4 h-4" />
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setViewMode((mode) =>
+                mode === "single" ? "continuous" : "single"
+              )
+            }
+            title={
+              viewMode === "single"
+                ? "Switch to continuous scroll"
+                : "Switch to single page"
+            }
+          >
+            {viewMode === "single" ? (
+              <ScrollText className="w-4 h-4" />
+            ) : (
+              <File className="w-4 h-4" />
+            )}
+          </Button>
+
           <Button variant="outline" size="sm" onClick={handleZoomOut}>
             <ZoomOut className="w-4 h-4" />
           </Button>
@@ -158,43 +646,88 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
         </div>
       </div>
 
+      {selection && onPassageAction && (
+        <PDFSelectionMenu
+          anchorRect={selection.rect}
+          onAction={(action) => {
+            onPassageAction(action, selection.passage);
+            window.getSelection()?.removeAllRanges();
+            setSelection(null);
+          }}
+        />
+      )}
+
+      {isFindOpen && (
+        <PDFFindBar
+          query={findQuery}
+          onQueryChange={handleFindQueryChange}
+          matchCount={findMatches.length}
+          activeIndex={resolvedMatchIndex}
+          isIndexing={!isFullyIndexed}
+          onNext={() => stepMatch(1)}
+          onPrevious={() => stepMatch(-1)}
+          onClose={handleCloseFind}
+          focusRequest={findFocusRequest}
+          inputRef={findInputRef}
+        />
+      )}
+
       {/* PDF Content */}
-      <div className="flex-1 overflow-auto bg-gray-100">
-        <div className="flex justify-center p-4">
-          {error ? (
-            <div className="text-center py-8">
-              <p className="text-red-600">{error}</p>
-            </div>
-          ) : (
-            <Document
-              file={document.url}
-              onLoadSuccess={onDocumentLoadSuccess}
-              onLoadError={onDocumentLoadError}
-              loading={
-                <div className="flex items-center justify-center py-8">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
-                  <span className="ml-2 text-gray-600">
-                    {UI_MESSAGES.PDF_VIEWER.LOADING}
-                  </span>
-                </div>
-              }
-              className="max-w-full"
-            >
-              <Page
-                pageNumber={currentPage}
-                scale={scale}
-                className="shadow-lg"
-                renderTextLayer={false}
-                renderAnnotationLayer={false}
-                loading={
-                  <div className="flex items-center justify-center py-8">
-                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600"></div>
-                  </div>
-                }
+      <div className="flex flex-1 min-h-0 bg-gray-100">
+        {error ? (
+          <div className="flex-1 text-center py-8">
+            <p className="text-red-600">{error}</p>
+          </div>
+        ) : (
+          <Document
+            file={document.url}
+            onLoadSuccess={onDocumentLoadSuccess}
+            onLoadError={onDocumentLoadError}
+            onItemClick={({ pageNumber }) => onPageChange(pageNumber)}
+            loading={
+              <div className="flex flex-1 items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+                <span className="ml-2 text-gray-600">
+                  {UI_MESSAGES.PDF_VIEWER.LOADING}
+                </span>
+              </div>
+            }
+            className="flex flex-1 min-w-0"
+          >
+            {showSidePanel && numPages > 0 && (
+              <PDFSidePanel
+                documentId={document.id}
+                pdf={documentPdf}
+                numPages={numPages}
+                currentPage={currentPage}
+                citedPages={citedPages}
+                onPageChange={onPageChange}
               />
-            </Document>
-          )}
-        </div>
+            )}
+
+            <div
+              ref={setContentElement}
+              className="flex-1 overflow-auto"
+              onMouseUp={handleContentMouseUp}
+            >
+              {viewMode === "continuous" ? (
+                <PDFContinuousView
+                  numPages={numPages}
+                  scale={scale}
+                  currentPage={currentPage}
+                  onPageChange={onPageChange}
+                  scrollElement={contentElement}
+                  pageSizes={measuredPageSizes}
+                  renderPage={renderPage}
+                />
+              ) : (
+                <div className="flex justify-center p-4">
+                  {renderPage(currentPage)}
+                </div>
+              )}
+            </div>
+          </Document>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,141 @@
+import React from "react";
+import { Radio, X } from "lucide-react";
+import {
+  isActiveProcessingJob,
+  useCancelProcessingMutation,
+  useProcessingJobQuery,
+} from "../../hooks/useProcessingQueries";
+import { getProcessingStageLabel } from "../../utils/documentLifecycle";
+import { formatDuration } from "../../utils/helpers";
+import { cn } from "../../utils/cn";
+import type { ProcessingProgress } from "../../types/api";
+
+interface ProcessingProgressPanelProps {
+  documentId: string;
+  // Single line for document cards instead of the full breakdown
+  compact?: boolean;
+}
+
+const formatEta = (progress: ProcessingProgress) =>
+  progress.estimated_remaining_ms != null
+    ? `${formatDuration(progress.estimated_remaining_ms / 1000)} left`
+    : null;
+
+const ProgressBar: React.FC<{ percentage: number; className?: string }> = ({
+  percentage,
+  className,
+}) => (
+  <div className={cn("w-full bg-gray-200 rounded-full", className)}>
+    <div
+      className={cn(
+        "bg-purple-600 rounded-full transition-all duration-300",
+        className
+      )}
+      style={{ width: `${Math.min(100, Math.max(0, percentage))}%` }}
+    />
+  </div>
+);
+
+const ProcessingProgressPanel: React.FC<ProcessingProgressPanelProps> = ({
+  documentId,
+  compact = false,
+}) => {
+  const { data: job, isLive } = useProcessingJobQuery(documentId);
+  const cancelMutation = useCancelProcessingMutation();
+  const activeJob = isActiveProcessingJob(job) ? job : undefined;
+  const progress = activeJob?.progress;
+
+  const stage = progress
+    ? getProcessingStageLabel(progress.current_stage)
+    : job?.status === "pending"
+    ? "Waiting to start"
+    : "Processing your document...";
+  const percentage = Math.round(progress?.completion_percentage ?? 0);
+  const eta = progress && formatEta(progress);
+
+  const cancelButton = activeJob && (
+    <button
+      type="button"
+      // Cards open their document on click
+      onClick={(e) => {
+        e.stopPropagation();
+        cancelMutation.mutate({ documentId, jobId: activeJob.job_id });
+      }}
+      disabled={cancelMutation.isPending}
+      className="inline-flex items-center gap-1 text-xs text-gray-500 bg-transparent hover:text-red-600 disabled:opacity-50"
+      title="Cancel processing"
+    >
+      <X className="w-3 h-3" />
+      {cancelMutation.isPending ? "Cancelling..." : "Cancel"}
+    </button>
+  );
+
+  if (compact) {
+    return (
+      <div className="mt-2">
+        <ProgressBar percentage={percentage} className="h-1" />
+        <div className="flex items-center justify-between gap-2 mt-1">
+          <p className="text-xs text-gray-500 truncate">
+            {[stage, progress && `${percentage}%`, eta]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+          {cancelButton}
+        </div>
+      </div>
+    );
+  }
+
+  const counts = progress
+    ? [
+        {
+          label: "Pages",
+          value: `${progress.processed_pages} / ${progress.total_pages}`,
+        },
+        {
+          label: "Chunks",
+          value: `${progress.processed_chunks} / ${progress.total_chunks}`,
+        },
+        {
+          label: "Vectorized",
+          value: `${progress.vectorized_chunks} / ${progress.total_chunks}`,
+        },
+      ]
+    : [];
+
+  return (
+    <div className="w-80 mx-auto">
+      <div className="flex items-center justify-between mb-1 text-sm">
+        <span className="font-medium text-gray-700">{stage}</span>
+        <span className="text-gray-500">{percentage}%</span>
+      </div>
+      <ProgressBar percentage={percentage} className="h-2" />
+
+      {counts.length > 0 && (
+        <dl className="grid grid-cols-3 gap-2 mt-4 text-center">
+          {counts.map(({ label, value }) => (
+            <div key={label} className="p-2 bg-white rounded-md border border-gray-200">
+              <dt className="text-xs text-gray-500">{label}</dt>
+              <dd className="text-sm font-medium text-gray-900">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <div className="flex items-center justify-between mt-3 text-xs text-gray-500">
+        <span>{eta ?? "Estimating time left..."}</span>
+        <div className="flex items-center gap-3">
+          {isLive && (
+            <span className="inline-flex items-center gap-1 text-green-600">
+              <Radio className="w-3 h-3" />
+              Live
+            </span>
+          )}
+          {cancelButton}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProcessingProgressPanel;
@@ -0,0 +1,74 @@
+import React, { useState } from "react";
+import { AlertCircle, RefreshCw } from "lucide-react";
+import { useReprocessDocumentMutation } from "../../hooks/useProcessingQueries";
+import type { Document } from "../../types";
+
+interface ReprocessControlsProps {
+  document: Document;
+}
+
+// Shows why processing failed and lets the user run it again, either reusing
+// the existing chunks or re-chunking from scratch
+const ReprocessControls: React.FC<ReprocessControlsProps> = ({ document }) => {
+  const [isChoosing, setIsChoosing] = useState(false);
+  const reprocessMutation = useReprocessDocumentMutation();
+
+  const reprocess = (forceReprocess: boolean) => {
+    setIsChoosing(false);
+    reprocessMutation.mutate({ documentId: document.id, forceReprocess });
+  };
+
+  return (
+    // Cards open their document on click
+    <div className="mt-2 text-xs" onClick={(e) => e.stopPropagation()}>
+      {document.status === "error" && (
+        <p className="flex items-start gap-1 mb-1 text-red-600">
+          <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span className="line-clamp-2">
+            {document.processingError || "Processing failed"}
+          </span>
+        </p>
+      )}
+
+      {isChoosing ? (
+        <div className="flex flex-wrap items-center gap-x-2">
+          <button
+            type="button"
+            onClick={() => reprocess(false)}
+            className="text-purple-700 bg-transparent hover:underline"
+            title="Process again, reusing the existing chunks"
+          >
+            Keep chunks
+          </button>
+          <button
+            type="button"
+            onClick={() => reprocess(true)}
+            className="text-purple-700 bg-transparent hover:underline"
+            title="Discard the existing chunks and process from scratch"
+          >
+            Re-chunk
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsChoosing(false)}
+            className="text-gray-500 bg-transparent hover:underline"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsChoosing(true)}
+          disabled={reprocessMutation.isPending}
+          className="inline-flex items-center gap-1 text-gray-500 bg-transparent hover:text-purple-700 disabled:opacity-50"
+        >
+          <RefreshCw className="w-3 h-3" />
+          {reprocessMutation.isPending ? "Starting..." : "Reprocess"}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReprocessControls;
@@ -0,0 +1,219 @@
+import React from "react";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  Copy,
+  Loader2,
+  RotateCcw,
+  X,
+} from "lucide-react";
+import { formatDuration, formatFileSize } from "../../utils/helpers";
+import { UI_MESSAGES } from "../../utils/constants";
+import { cn } from "../../utils/cn";
+import type {
+  UploadProgress,
+  UploadQueueItem,
+  UploadQueueStatus,
+} from "../../types";
+
+interface UploadQueueProps {
+  items: UploadQueueItem[];
+  onRetry?: (id: string) => void;
+  onUploadAnyway?: (id: string) => void;
+  onRemove?: (id: string) => void;
+  onOpen?: (item: UploadQueueItem) => void;
+  onClearFinished?: () => void;
+}
+
+const STATUS_LABELS: Record<UploadQueueStatus, string> = {
+  queued: "Queued",
+  checking: "Checking file",
+  duplicate: "Already uploaded",
+  uploading: "Uploading",
+  processing: "Processing",
+  ready: "Ready",
+  failed: "Failed",
+};
+
+// e.g. "12.5 MB of 100 MB · 3.2 MB/s · 27s left"
+const formatTransfer = (progress: UploadProgress) => {
+  if (!progress.totalBytes) return `${progress.percentage}%`;
+  if (progress.loadedBytes === progress.totalBytes) {
+    return UI_MESSAGES.UPLOAD.FINISHING;
+  }
+
+  const parts = [
+    `${formatFileSize(progress.loadedBytes ?? 0)} of ${formatFileSize(
+      progress.totalBytes
+    )}`,
+  ];
+  if (progress.bytesPerSecond) {
+    parts.push(`${formatFileSize(progress.bytesPerSecond)}/s`);
+  }
+  if (progress.etaSeconds != null && progress.percentage < 100) {
+    parts.push(`${formatDuration(progress.etaSeconds)} left`);
+  }
+  return parts.join(" · ");
+};
+
+const StatusIcon: React.FC<{ status: UploadQueueStatus }> = ({ status }) => {
+  switch (status) {
+    case "queued":
+      return <Clock className="w-4 h-4 text-gray-400" />;
+    case "checking":
+      return <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />;
+    case "duplicate":
+      return <Copy className="w-4 h-4 text-amber-500" />;
+    case "uploading":
+    case "processing":
+      return <Loader2 className="w-4 h-4 text-purple-600 animate-spin" />;
+    case "ready":
+      return <CheckCircle2 className="w-4 h-4 text-green-600" />;
+    case "failed":
+      return <AlertCircle className="w-4 h-4 text-red-500" />;
+  }
+};
+
+const UploadQueue: React.FC<UploadQueueProps> = ({
+  items,
+  onRetry,
+  onUploadAnyway,
+  onRemove,
+  onOpen,
+  onClearFinished,
+}) => {
+  if (items.length === 0) return null;
+
+  const readyCount = items.filter((item) => item.status === "ready").length;
+
+  return (
+    <div className="mt-4 bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <h4 className="text-sm font-medium text-gray-900">
+          Uploads ({readyCount}/{items.length} ready)
+        </h4>
+        {readyCount > 0 && onClearFinished && (
+          <button
+            type="button"
+            onClick={onClearFinished}
+            className="text-xs text-gray-500 bg-transparent hover:text-gray-700"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-center gap-3 px-4 py-2">
+            <StatusIcon status={item.status} />
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                {item.status === "ready" && onOpen ? (
+                  <button
+                    type="button"
+                    onClick={() => onOpen(item)}
+                    className="text-sm text-left text-purple-700 bg-transparent truncate hover:underline"
+                  >
+                    {item.file.name}
+                  </button>
+                ) : (
+                  <span className="text-sm text-gray-900 truncate">
+                    {item.file.name}
+                  </span>
+                )}
+                <span className="flex-shrink-0 text-xs text-gray-400">
+                  {formatFileSize(item.file.size)}
+                  {item.pageCount != null &&
+                    ` · ${item.pageCount} ${
+                      item.pageCount === 1 ? "page" : "pages"
+                    }`}
+                </span>
+              </div>
+
+              {item.status === "uploading" && item.progress ? (
+                <>
+                  <div className="w-full h-1 mt-1 bg-gray-200 rounded-full">
+                    <div
+                      className="h-1 bg-purple-600 rounded-full transition-all duration-300"
+                      style={{ width: `${item.progress.percentage}%` }}
+                    />
+                  </div>
+                  <p className="mt-0.5 text-xs text-gray-500">
+                    {formatTransfer(item.progress)}
+                  </p>
+                </>
+              ) : item.status === "duplicate" ? (
+                <div className="flex flex-wrap items-center gap-x-2 text-xs">
+                  <span className="text-amber-700">
+                    {item.duplicateOf
+                      ? `Already uploaded as “${item.duplicateOf.name}”`
+                      : item.error || STATUS_LABELS.duplicate}
+                  </span>
+                  {onOpen && item.duplicateOf && (
+                    <button
+                      type="button"
+                      onClick={() => onOpen(item)}
+                      className="text-purple-700 bg-transparent hover:underline"
+                    >
+                      Open existing
+                    </button>
+                  )}
+                  {onUploadAnyway && (
+                    <button
+                      type="button"
+                      onClick={() => onUploadAnyway(item.id)}
+                      className="text-gray-600 bg-transparent hover:underline"
+                    >
+                      Upload anyway
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <p
+                  className={cn(
+                    "text-xs",
+                    item.status === "failed" ? "text-red-600" : "text-gray-500"
+                  )}
+                >
+                  {item.error || STATUS_LABELS[item.status]}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-1">
+              {item.canRetry && onRetry && (
+                <button
+                  type="button"
+                  onClick={() => onRetry(item.id)}
+                  className="p-1 text-gray-500 bg-transparent rounded hover:bg-gray-100"
+                  title="Retry upload"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+              {onRemove && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(item.id)}
+                  className="p-1 text-gray-500 bg-transparent rounded hover:bg-gray-100"
+                  title={
+                    item.status === "uploading"
+                      ? "Cancel upload"
+                      : "Remove from list"
+                  }
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UploadQueue;
@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from "react";
 import { ApiException } from "../utils/apiError";
+import type { RequestOptions, UploadProgressEvent } from "../types/api";
 
 export interface UseApiState<T> {
   data: T | null;
@@ -116,22 +117,38 @@ export function useApi<T>(
 // Hook for file uploads with progress
 export interface UseUploadState<T> extends UseApiState<T> {
   progress: number;
+  transfer: UploadProgressEvent | null;
+  cancel: () => void;
 }
 
 export function useUpload<T>(
   uploadFunction: (
     file: File,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: UploadProgressEvent) => void,
+    signal?: AbortSignal
   ) => Promise<T>,
   options: UseApiOptions = {}
 ): UseUploadState<T> {
   const [progress, setProgress] = useState(0);
+  const [transfer, setTransfer] = useState<UploadProgressEvent | null>(null);
 
   const apiState = useApi(
     (...args: unknown[]) => {
-      const [file] = args as [File];
+      // execute passes an options object, which useApi fills with the
+      // abort signal
+      const [file, { signal } = {}] = args as [File, RequestOptions?];
       setProgress(0);
-      return uploadFunction(file, setProgress);
+      setTransfer(null);
+      return uploadFunction(
+        file,
+        (event) => {
+          setTransfer(event);
+          setProgress(
+            event.total > 0 ? Math.round((event.loaded / event.total) * 100) : 0
+          );
+        },
+        signal
+      );
     },
     {
       ...options,
@@ -141,20 +158,34 @@ export function useUpload<T>(
       },
       onError: (error) => {
         setProgress(0);
+        setTransfer(null);
         options.onError?.(error);
       },
     }
   );
 
+  // useApi puts the signal on the last object argument, which would be the
+  // File itself without an explicit options object after it
+  const { execute: executeUpload } = apiState;
+  const execute = useCallback(
+    (...args: unknown[]) => executeUpload(args[0], {}),
+    [executeUpload]
+  );
+
   const reset = useCallback(() => {
     setProgress(0);
+    setTransfer(null);
     apiState.reset();
   }, [apiState]);
 
   return {
     ...apiState,
+    execute,
     progress,
+    transfer,
     reset,
+    // Aborting the request drops its result, so cancelling is a reset
+    cancel: reset,
   };
 }
 
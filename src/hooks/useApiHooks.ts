@@ -13,6 +13,7 @@ import {
   citationService,
   type ChatMessage,
 } from "../services";
+import type { UploadProgressEvent } from "../types/api";
 
 // Document Hooks
 export function useDocuments(options?: UseApiOptions) {
@@ -25,20 +26,15 @@ export function useDocument(id: string, options?: UseApiOptions) {
 
 export function useDocumentUpload(options?: UseApiOptions) {
   return useUpload(
-    async (file: File, onProgress?: (progress: number) => void) => {
-      // Simulate progress for now - you can enhance this with actual progress tracking
-      const progressInterval = setInterval(() => {
-        onProgress?.(Math.min(90, Math.random() * 80 + 10));
-      }, 200);
-
-      try {
-        const result = await documentService.uploadDocument(file);
-        onProgress?.(100);
-        return result;
-      } finally {
-        clearInterval(progressInterval);
-      }
-    },
+    (
+      file: File,
+      onProgress?: (progress: UploadProgressEvent) => void,
+      signal?: AbortSignal
+    ) =>
+      documentService.uploadDocument(file, {
+        signal,
+        onUploadProgress: onProgress,
+      }),
     options
   );
 }
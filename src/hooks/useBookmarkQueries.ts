@@ -0,0 +1,79 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import { bookmarkService } from "../services";
+import { queryKeys, mutationKeys } from "../lib/queryClient";
+import { getErrorDisplayMessage } from "../utils/typeAdapters";
+import type { BookmarkRequest } from "../services/bookmarkService";
+import type { Bookmark } from "../types";
+
+const byPage = (a: Bookmark, b: Bookmark) => a.page - b.page;
+
+// Query: Get a document's bookmarks
+export const useBookmarksQuery = (documentId: string) => {
+  return useQuery({
+    queryKey: queryKeys.bookmarks(documentId),
+    queryFn: () => bookmarkService.getBookmarks(documentId),
+    enabled: !!documentId,
+    staleTime: Infinity, // Only changed through the mutations below
+  });
+};
+
+// Mutation: Add bookmark
+export const useCreateBookmarkMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.createBookmark,
+    mutationFn: (request: BookmarkRequest) =>
+      bookmarkService.createBookmark(request),
+    onSuccess: (bookmark) => {
+      queryClient.setQueryData<Bookmark[]>(
+        queryKeys.bookmarks(bookmark.documentId),
+        (old = []) => [...old, bookmark].sort(byPage)
+      );
+    },
+    onError: (error) => {
+      toast.error(getErrorDisplayMessage(error));
+    },
+  });
+};
+
+// Mutation: Rename bookmark
+export const useRenameBookmarkMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.renameBookmark,
+    mutationFn: ({ id, name }: { id: string; name: string }) =>
+      bookmarkService.renameBookmark(id, name),
+    onSuccess: (bookmark) => {
+      queryClient.setQueryData<Bookmark[]>(
+        queryKeys.bookmarks(bookmark.documentId),
+        (old) => old?.map((b) => (b.id === bookmark.id ? bookmark : b))
+      );
+    },
+    onError: (error) => {
+      toast.error(getErrorDisplayMessage(error));
+    },
+  });
+};
+
+// Mutation: Delete bookmark
+export const useDeleteBookmarkMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.deleteBookmark,
+    mutationFn: (bookmark: Bookmark) =>
+      bookmarkService.deleteBookmark(bookmark.id),
+    onSuccess: (_, bookmark) => {
+      queryClient.setQueryData<Bookmark[]>(
+        queryKeys.bookmarks(bookmark.documentId),
+        (old) => old?.filter((b) => b.id !== bookmark.id)
+      );
+    },
+    onError: (error) => {
+      toast.error(getErrorDisplayMessage(error));
+    },
+  });
+};
@@ -1,22 +1,33 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useRef, useCallback, useEffect } from "react";
 import { toast } from "react-hot-toast";
-import { chatService } from "../services";
+import { chatService, ApiException } from "../services";
 import { queryKeys, mutationKeys } from "../lib/queryClient";
 import {
   adaptApiChatSessionToUI,
   adaptApiChatMessageToUI,
+  adaptApiChatTurnToUI,
   getErrorDisplayMessage,
 } from "../utils/typeAdapters";
 import type { ChatSession, ChatMessage } from "../types";
 
+// Statuses meaning the backend has no streaming endpoint
+const STREAM_UNAVAILABLE_STATUSES = [404, 405, 501];
+
+export type ChatStreamResult =
+  | { status: "completed"; message: ChatMessage }
+  | { status: "aborted"; content: string }
+  | { status: "unavailable" };
+
 // Query: Get all chat sessions
-export const useChatSessionsQuery = () => {
+export const useChatSessionsQuery = (enabled = true) => {
   return useQuery({
     queryKey: queryKeys.chatSessions,
     queryFn: async () => {
       const sessions = await chatService.getSessions();
       return sessions.map((session) => adaptApiChatSessionToUI(session));
     },
+    enabled,
     staleTime: 1 * 60 * 1000, // 1 minute
   });
 };
@@ -40,7 +51,8 @@ export const useChatMessagesQuery = (sessionId: string, enabled = true) => {
     queryKey: queryKeys.chatMessages(sessionId),
     queryFn: async () => {
       const messages = await chatService.getMessages(sessionId);
-      return messages.map(adaptApiChatMessageToUI);
+      // Each stored message holds a full question/answer turn
+      return messages.flatMap(adaptApiChatTurnToUI);
     },
     enabled: !!sessionId && enabled,
     staleTime: 30 * 1000, // 30 seconds - messages change frequently
@@ -48,6 +60,17 @@ export const useChatMessagesQuery = (sessionId: string, enabled = true) => {
   });
 };
 
+// Query: Get usage statistics for a chat session
+export const useChatSessionStatsQuery = (sessionId: string, enabled = true) => {
+  return useQuery({
+    queryKey: queryKeys.chatSessionStats(sessionId),
+    queryFn: () => chatService.getSessionStats(sessionId),
+    enabled: !!sessionId && enabled,
+    staleTime: 1 * 60 * 1000, // 1 minute
+    retry: 1,
+  });
+};
+
 // Mutation: Create chat session
 export const useCreateChatSessionMutation = () => {
   const queryClient = useQueryClient();
@@ -56,10 +79,12 @@ export const useCreateChatSessionMutation = () => {
     mutationKey: mutationKeys.createChatSession,
     mutationFn: async ({
       documentId,
+      documentIds,
       sessionName,
       initialMessage,
     }: {
       documentId?: string;
+      documentIds?: string[];
       sessionName?: string;
       initialMessage?: string;
     }) => {
@@ -67,6 +92,7 @@ export const useCreateChatSessionMutation = () => {
       const session = await chatService.createSession({
         session_id: sessionId,
         document_id: documentId,
+        document_ids: documentIds,
         initial_message: initialMessage,
         session_name: sessionName,
       });
@@ -108,21 +134,27 @@ export const useSendMessageMutation = () => {
     mutationFn: async ({
       sessionId,
       content,
+      documentIds,
       includeCitations = true,
     }: {
       sessionId: string;
       content: string;
+      // Sources to answer from; defaults to the session's documents
+      documentIds?: string[];
       includeCitations?: boolean;
     }) => {
       const message = await chatService.sendMessage({
         session_id: sessionId,
         message: content,
+        document_ids: documentIds,
         model: "gpt-3.5-turbo",
         temperature: 0.7,
         include_citations: includeCitations,
       });
-      return adaptApiChatMessageToUI(message);
+      return adaptApiChatTurnToUI(message);
     },
+    // A blind retry could store the turn twice
+    retry: false,
     onMutate: async ({ sessionId, content }) => {
       // Cancel outgoing refetches
       await queryClient.cancelQueries({
@@ -150,7 +182,7 @@ export const useSendMessageMutation = () => {
 
       return { previousMessages, optimisticUserMessage };
     },
-    onSuccess: (newMessage, { sessionId }) => {
+    onSuccess: (newMessages, { sessionId }) => {
       // Remove optimistic message and add real messages
       queryClient.setQueryData<ChatMessage[]>(
         queryKeys.chatMessages(sessionId),
@@ -160,7 +192,7 @@ export const useSendMessageMutation = () => {
             (msg) => !msg.id.startsWith("temp-")
           );
           // Add the real user message and AI response
-          return [...withoutOptimistic, newMessage];
+          return [...withoutOptimistic, ...newMessages];
         }
       );
 
@@ -182,6 +214,74 @@ export const useSendMessageMutation = () => {
   });
 };
 
+// Hook: Refresh a session's history after a finished turn. The server stores
+// each turn as it answers, so the cached history is simply refetched.
+export const useRefreshChatHistory = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    (sessionId: string) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.chatMessages(sessionId),
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.chatSessions });
+    },
+    [queryClient]
+  );
+};
+
+// Mutation: Rename chat session
+export const useRenameChatSessionMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.renameChatSession,
+    mutationFn: ({ sessionId, name }: { sessionId: string; name: string }) =>
+      chatService.updateSession(sessionId, { session_name: name }),
+    onMutate: async ({ sessionId, name }) => {
+      // Cancel outgoing refetches
+      await queryClient.cancelQueries({ queryKey: queryKeys.chatSessions });
+
+      // Snapshot previous value
+      const previousSessions = queryClient.getQueryData<ChatSession[]>(
+        queryKeys.chatSessions
+      );
+
+      // Optimistically rename the session
+      queryClient.setQueryData<ChatSession[]>(queryKeys.chatSessions, (old) =>
+        old?.map((session) =>
+          session.id === sessionId ? { ...session, name } : session
+        )
+      );
+      queryClient.setQueryData<ChatSession>(
+        queryKeys.chatSession(sessionId),
+        (old) => (old ? { ...old, name } : old)
+      );
+
+      return { previousSessions };
+    },
+    onError: (error, { sessionId }, context) => {
+      // Rollback on error
+      if (context?.previousSessions) {
+        queryClient.setQueryData(
+          queryKeys.chatSessions,
+          context.previousSessions
+        );
+      }
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.chatSession(sessionId),
+      });
+      toast.error(getErrorDisplayMessage(error));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.chatSessions,
+        exact: true,
+      });
+    },
+  });
+};
+
 // Mutation: Delete chat session
 export const useDeleteChatSessionMutation = () => {
   const queryClient = useQueryClient();
@@ -253,3 +353,84 @@ export const useChatWorkflow = (sessionId: string) => {
     refetchSession: sessionQuery.refetch,
   };
 };
+
+// Hook: Stream an assistant answer token-by-token with support for aborting
+export const useChatStream = () => {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const startStream = useCallback(
+    async ({
+      sessionId,
+      content,
+      documentIds,
+      onToken,
+    }: {
+      sessionId: string;
+      content: string;
+      documentIds?: string[];
+      onToken: (token: string, fullContent: string) => void;
+    }): Promise<ChatStreamResult> => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setIsStreaming(true);
+
+      let received = "";
+
+      try {
+        return await new Promise<ChatStreamResult>((resolve, reject) => {
+          chatService.streamMessage(
+            {
+              session_id: sessionId,
+              message: content,
+              document_ids: documentIds,
+              include_citations: true,
+            },
+            (token) => {
+              received += token;
+              onToken(token, received);
+            },
+            (message) => {
+              resolve({
+                status: "completed",
+                message: adaptApiChatMessageToUI(message),
+              });
+            },
+            (error) => {
+              if (controller.signal.aborted) {
+                resolve({ status: "aborted", content: received });
+              } else if (
+                !received &&
+                error instanceof ApiException &&
+                STREAM_UNAVAILABLE_STATUSES.includes(error.status)
+              ) {
+                resolve({ status: "unavailable" });
+              } else {
+                reject(error);
+              }
+            },
+            { signal: controller.signal }
+          );
+        });
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setIsStreaming(false);
+        }
+      }
+    },
+    []
+  );
+
+  const stopStream = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Abort any in-flight stream on unmount
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  return { startStream, stopStream, isStreaming };
+};
@@ -1,16 +1,30 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "react-hot-toast";
-import { citationsService } from "../services";
-import { mutationKeys } from "../lib/queryClient";
-import { getErrorDisplayMessage } from "../utils/typeAdapters";
+import { citationService, citationsService } from "../services";
+import { mutationKeys, queryKeys } from "../lib/queryClient";
+import {
+  adaptUICitationToAnalysis,
+  getCitationPassageKey,
+  getErrorDisplayMessage,
+} from "../utils/typeAdapters";
+import { CITATION_VALIDATION_CONFIG } from "../utils/constants";
+import type {
+  ChatMessage,
+  Citation as UICitation,
+  CitationVerdict,
+  CitationVerification,
+  MessageVerification,
+} from "../types";
 import type {
   Citation,
   CitationExtractionRequest,
   CitationExtractionResponse,
   CitationLinkingRequest,
   CitationValidationRequest,
+  CitationValidationResponse,
   CitationAnalysisRequest,
   CitationClusteringRequest,
+  CitationClusteringResponse,
   BulkCitationProcessingRequest,
 } from "../services/citationsService";
 
@@ -48,6 +62,104 @@ export const useDocumentCitationsQuery = (
   });
 };
 
+// Query: Get the text surrounding a citation. Source text does not change,
+// so each citation's context is fetched once and kept.
+export const useCitationContextQuery = (citationId: string, enabled = true) => {
+  return useQuery({
+    queryKey: queryKeys.citationContext(citationId),
+    queryFn: () => citationService.getCitationContext(citationId),
+    enabled: enabled && !!citationId,
+    staleTime: Infinity,
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: false,
+  });
+};
+
+const toVerdict = (
+  result: CitationValidationResponse["validation_results"][number]
+): CitationVerdict => {
+  const score = Math.min(result.accuracy_score, result.relevance_score);
+  if (!result.is_valid || score < CITATION_VALIDATION_CONFIG.WEAK_MIN_SCORE) {
+    return "unsupported";
+  }
+  return score >= CITATION_VALIDATION_CONFIG.VERIFIED_MIN_SCORE
+    ? "verified"
+    : "weak";
+};
+
+const toMessageVerification = (
+  response: CitationValidationResponse
+): MessageVerification => ({
+  citations: Object.fromEntries(
+    response.validation_results.map((result) => [
+      result.citation.citation_id,
+      {
+        verdict: toVerdict(result),
+        accuracyScore: result.accuracy_score,
+        relevanceScore: result.relevance_score,
+        issues: result.issues ?? [],
+      } satisfies CitationVerification,
+    ])
+  ),
+  overallAccuracy: response.overall_accuracy,
+});
+
+// Query: Check an answer's citations against their sources. Answers don't
+// change once complete, so each message is validated once.
+export const useMessageVerificationQuery = (
+  message: ChatMessage,
+  enabled = true
+) => {
+  const citations = message.citations ?? [];
+
+  return useQuery({
+    queryKey: queryKeys.messageVerification(message.id),
+    queryFn: async () =>
+      toMessageVerification(
+        await citationsService.validateCitations({
+          citations: citations.map(adaptUICitationToAnalysis),
+          source_documents: [
+            ...new Set(citations.map((citation) => citation.documentId)),
+          ],
+          validation_criteria: {
+            check_accuracy: true,
+            check_relevance: true,
+          },
+        })
+      ),
+    enabled:
+      enabled && message.role === "assistant" && citations.length > 0,
+    staleTime: Infinity,
+    retry: false,
+  });
+};
+
+// Query: Group a session's citations into themes. Re-clustered whenever
+// the set of citations changes.
+export const useSessionCitationClustersQuery = (
+  sessionId: string,
+  citations: UICitation[],
+  method: NonNullable<CitationClusteringRequest["clustering_method"]>,
+  enabled = true
+) => {
+  return useQuery<CitationClusteringResponse>({
+    // Keyed on the passages rather than their ids, which change per answer
+    queryKey: queryKeys.sessionCitationClusters(
+      sessionId,
+      method,
+      Array.from(new Set(citations.map(getCitationPassageKey))).sort()
+    ),
+    queryFn: () =>
+      citationsService.clusterCitations({
+        citations: citations.map(adaptUICitationToAnalysis),
+        clustering_method: method,
+      }),
+    enabled: enabled && !!sessionId && citations.length > 0,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 1,
+  });
+};
+
 // Mutation: Extract citations from response text
 export const useCitationExtractionMutation = () => {
   const queryClient = useQueryClient();
@@ -3,117 +3,73 @@ import {
   useMutation,
   useQueryClient,
   QueryClient,
+  queryOptions,
 } from "@tanstack/react-query";
 import { useCallback } from "react";
 import { toast } from "react-hot-toast";
 import { documentService } from "../services";
+import { adoptProcessingJob } from "./useProcessingQueries";
 import { queryKeys, mutationKeys } from "../lib/queryClient";
 import {
   adaptApiDocumentToUI,
   getErrorDisplayMessage,
 } from "../utils/typeAdapters";
+import { isCancelledError } from "../utils/apiError";
+import {
+  isTerminalState,
+  isInProgressState,
+  nextDocumentState,
+  type DocumentState,
+} from "../utils/documentLifecycle";
 import type { Document as UIDocument } from "../types";
+import type { UploadProgressEvent } from "../types/api";
 
-// Union of all possible backend status values
-export const BACKEND_STATUSES = [
-  "uploaded",
-  "pending",
-  "processing",
-  "completed",
-  "error",
-  "processed",
-  "chunking",
-  "vectorizing",
-  "indexing",
-] as const;
-
-export const FRONTEND_STATUSES = [
-  "uploading",
-  "processing",
-  "ready",
-  "error",
-] as const;
-
-type BackendStatus = (typeof BACKEND_STATUSES)[number];
-type FrontendStatus = (typeof FRONTEND_STATUSES)[number];
-
-interface DocumentStatusResponse {
-  status: BackendStatus;
-  processing_stage?: string;
-  page_count?: number;
-  chunk_count?: number;
-  processing_time_ms?: number | null;
-  progress_percentage: number;
-  error_message?: string | null;
-}
-
-// Type guard for BackendStatus
-function isBackendStatus(status: unknown): status is BackendStatus {
-  return (
-    typeof status === "string" &&
-    (BACKEND_STATUSES as readonly string[]).includes(status)
-  );
-}
-
-// Type guard for FrontendStatus
-function isFrontendStatus(status: unknown): status is FrontendStatus {
-  return (
-    typeof status === "string" &&
-    (FRONTEND_STATUSES as readonly string[]).includes(status as string)
-  );
-}
-
-// Query: Get all documents
-export const useDocumentsQuery = (enabled = true) => {
-  return useQuery({
+export const documentsQueryOptions = () =>
+  queryOptions({
     queryKey: queryKeys.documents,
     queryFn: async () => {
       const documents = await documentService.getDocuments();
       return documents.map(adaptApiDocumentToUI);
     },
-    enabled,
     staleTime: 2 * 60 * 1000, // 2 minutes - documents don't change often
   });
-};
 
-// Query: Get single document
-export const useDocumentQuery = (id: string, enabled = true) => {
+// Query: Get all documents
+export const useDocumentsQuery = (enabled = true) => {
   return useQuery({
+    ...documentsQueryOptions(),
+    enabled,
+  });
+};
+
+// Shared by single-document queries and batched useQueries lookups
+export const documentQueryOptions = (id: string) =>
+  queryOptions({
     queryKey: queryKeys.document(id),
     queryFn: async () => {
       const document = await documentService.getDocument(id);
       return adaptApiDocumentToUI(document);
     },
-    enabled: !!id && enabled,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
+
+// Query: Get single document
+export const useDocumentQuery = (id: string, enabled = true) => {
+  return useQuery({
+    ...documentQueryOptions(id),
+    enabled: !!id && enabled,
+  });
 };
 
-// Helper function to update document status in the cache
+// Helper function to move a cached document to a new lifecycle state
 const updateDocumentStatus = (
   queryClient: QueryClient,
   documentId: string,
-  status: DocumentStatusResponse | { status: BackendStatus | FrontendStatus }
+  state: DocumentState
 ) => {
-  queryClient.setQueryData<Document>(queryKeys.document(documentId), (old) => {
-    if (!old) return old;
-
-    // Determine the new status based on the input
-    let newStatus: FrontendStatus;
-    if (isBackendStatus(status.status)) {
-      newStatus = mapApiStatusToUIStatus(status.status);
-    } else if (isFrontendStatus(status.status)) {
-      newStatus = status.status;
-    } else {
-      console.warn("Unknown status type:", status.status);
-      newStatus = "error";
-    }
-
-    return {
-      ...old,
-      status: newStatus,
-    };
-  });
+  queryClient.setQueryData<UIDocument>(queryKeys.document(documentId), (old) =>
+    old ? { ...old, status: nextDocumentState(old.status, state) } : old
+  );
 };
 
 // Query: Get document status (with polling for processing documents)
@@ -123,7 +79,7 @@ export const useDocumentStatusQuery = (id: string, enabled = true) => {
   const queryFn = useCallback(async () => {
     if (!id) return null;
     const status = await documentService.getDocumentStatus(id);
-    updateDocumentStatus(queryClient, id, status);
+    updateDocumentStatus(queryClient, id, status.status);
     return status;
   }, [id, queryClient]);
 
@@ -133,38 +89,19 @@ export const useDocumentStatusQuery = (id: string, enabled = true) => {
     enabled: !!id && enabled,
     refetchInterval: (query) => {
       // Poll every 2 seconds if document is still processing
-      const data = query.state.data as DocumentStatusResponse | undefined;
+      const data = query.state.data;
 
       if (!data?.status) {
         console.log(`ℹ️ No status data, stopping polling`);
         return false;
       }
 
-      // Continue polling for these statuses (non-terminal states)
-      const processingStates = [
-        "uploaded",
-        "pending",
-        "processing",
-        "chunking",
-        "vectorizing",
-        "indexing",
-      ];
-
-      // Stop polling for these statuses (terminal states)
-      const terminalStates = [
-        "ready",
-        "completed",
-        "processed",
-        "error",
-        "failed",
-      ];
-
-      if (processingStates.includes(data.status)) {
+      if (isInProgressState(data.status)) {
         console.log(`🔄 Polling document status (${data.status})`);
         return 2000; // Poll every 2 seconds
       }
 
-      if (terminalStates.includes(data.status)) {
+      if (isTerminalState(data.status)) {
         console.log(`🛑 Stopping polling for terminal status: ${data.status}`);
 
         // Only invalidate queries once when reaching terminal state
@@ -174,7 +111,7 @@ export const useDocumentStatusQuery = (id: string, enabled = true) => {
         }, 100);
 
         // Show success message if processing is complete
-        if (["processed", "completed", "ready"].includes(data.status)) {
+        if (data.status === "ready") {
           toast.success("Document processing completed!");
         }
 
@@ -191,30 +128,6 @@ export const useDocumentStatusQuery = (id: string, enabled = true) => {
   });
 };
 
-// Helper function to map API status to UI status
-const mapApiStatusToUIStatus = (status: BackendStatus): FrontendStatus => {
-  switch (status) {
-    case "uploaded":
-    case "pending":
-      return "uploading";
-    case "processing":
-    case "chunking":
-    case "vectorizing":
-    case "indexing":
-      return "processing";
-    case "completed":
-    case "processed":
-      return "ready";
-    case "error":
-      return "error";
-    default: {
-      // This will cause a TypeScript error if we've missed any BackendStatus cases
-      console.warn("Unhandled document status:", status);
-      return "error" as const;
-    }
-  }
-};
-
 // Query: Get document content
 export const useDocumentContentQuery = (id: string, enabled = true) => {
   return useQuery({
@@ -225,14 +138,30 @@ export const useDocumentContentQuery = (id: string, enabled = true) => {
   });
 };
 
+interface UploadDocumentVariables {
+  file: File;
+  contentHash?: string;
+  signal?: AbortSignal;
+  onUploadProgress?: (progress: UploadProgressEvent) => void;
+}
+
 // Mutation: Upload document
 export const useUploadDocumentMutation = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationKey: mutationKeys.uploadDocument,
-    mutationFn: async (file: File) => {
-      return await documentService.uploadDocument(file);
+    mutationFn: async ({
+      file,
+      contentHash,
+      signal,
+      onUploadProgress,
+    }: UploadDocumentVariables) => {
+      return await documentService.uploadDocument(file, {
+        contentHash,
+        signal,
+        onUploadProgress,
+      });
     },
     onSuccess: async (data) => {
       // Invalidate documents list to refetch
@@ -279,118 +208,19 @@ export const useUploadDocumentMutation = () => {
         // Show immediate feedback that processing has started
         toast.success("Document processing started in background!");
 
-        // Update document status to show it's processing
-        queryClient.setQueryData<UIDocument>(
-          queryKeys.document(data.document_id),
-          (old) => (old ? { ...old, status: "processing" } : old)
-        );
-
-        // Start polling the ASYNC JOB STATUS (not just document status) to detect completion/failure
-        const pollAsyncJobStatus = async () => {
-          let attempts = 0;
-          const maxAttempts = 150; // 5 minutes max (2s intervals)
-
-          const poll = async (): Promise<void> => {
-            attempts++;
-
-            try {
-              // Poll the async job status endpoint
-              const jobStatus = await documentService.getAsyncProcessingStatus(
-                data.document_id,
-                asyncJob.job_id
-              );
-
-              // Check if job completed successfully
-              if (jobStatus.status === "completed") {
-                console.log("✅ Async processing completed successfully!");
-
-                // Update document status to 'ready' to stop the spinner
-                queryClient.setQueryData<UIDocument>(
-                  queryKeys.document(data.document_id),
-                  (old) => (old ? { ...old, status: "ready" } : old)
-                );
-
-                // Invalidate queries to refresh data
-                queryClient.invalidateQueries({
-                  queryKey: queryKeys.documents,
-                });
-                queryClient.invalidateQueries({
-                  queryKey: queryKeys.document(data.document_id),
-                });
-
-                toast.success("Document processing completed successfully!");
-                return; // Stop polling
-              } else if (jobStatus.status === "failed") {
-                // Update document status to 'error' to stop the spinner
-                queryClient.setQueryData<UIDocument>(
-                  queryKeys.document(data.document_id),
-                  (old) => (old ? { ...old, status: "error" } : old)
-                );
-
-                toast.error(
-                  `Document processing failed: ${
-                    jobStatus.error_message || "Unknown error"
-                  }`
-                );
-                return; // Stop polling
-              } else if (attempts >= maxAttempts) {
-                console.warn(
-                  "⏰ Async job polling timeout - stopping polling but job may still be running"
-                );
-
-                // Update document status to 'error' to stop the spinner
-                queryClient.setQueryData<UIDocument>(
-                  queryKeys.document(data.document_id),
-                  (old) => (old ? { ...old, status: "error" } : old)
-                );
-
-                toast.error("Document processing timed out - please try again");
-                return; // Stop polling
-              }
-
-              // Continue polling if job is still in progress
-              setTimeout(poll, 2000); // Poll every 2 seconds
-            } catch (error) {
-              console.error("❌ Error polling async job status:", error);
-
-              if (attempts >= maxAttempts) {
-                // Update document status to 'error' to stop the spinner
-                queryClient.setQueryData<UIDocument>(
-                  queryKeys.document(data.document_id),
-                  (old) => (old ? { ...old, status: "error" } : old)
-                );
-
-                toast.error("Failed to monitor document processing");
-                return; // Stop polling
-              }
-
-              // Retry polling
-              setTimeout(poll, 2000);
-            }
-          };
-
-          // Start polling
-          poll();
-        };
-
-        // Start async job status polling
-        pollAsyncJobStatus();
-
-        console.log(
-          "📊 Async job status polling started - will monitor completion/failure"
-        );
+        // The processing panel's watcher follows the job from here
+        adoptProcessingJob(queryClient, asyncJob);
       } catch (error) {
         console.error("❌ Failed to start async document processing:", error);
         toast.error("Failed to start document processing");
 
         // Update the document status to error
-        queryClient.setQueryData<UIDocument>(
-          queryKeys.document(data.document_id),
-          (old) => (old ? { ...old, status: "error" } : old)
-        );
+        updateDocumentStatus(queryClient, data.document_id, "error");
       }
     },
     onError: (error) => {
+      // The user already knows they cancelled
+      if (isCancelledError(error)) return;
       toast.error(getErrorDisplayMessage(error));
     },
   });
@@ -445,6 +275,56 @@ export const useDeleteDocumentMutation = () => {
   });
 };
 
+// Mutation: Delete several documents; failures are reported, not rolled back
+// one by one, since the refetch afterwards restores whatever still exists
+export const useDeleteDocumentsMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.deleteDocuments,
+    mutationFn: async (ids: string[]) => {
+      const results = await Promise.allSettled(
+        ids.map((id) => documentService.deleteDocument(id))
+      );
+      const failedIds = ids.filter(
+        (_id, index) => results[index].status === "rejected"
+      );
+      return {
+        deletedIds: ids.filter((id) => !failedIds.includes(id)),
+        failedIds,
+      };
+    },
+    onMutate: async (ids) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.documents });
+      queryClient.setQueryData<UIDocument[]>(queryKeys.documents, (old) =>
+        old?.filter((doc) => !ids.includes(doc.id))
+      );
+    },
+    onSuccess: ({ deletedIds, failedIds }) => {
+      deletedIds.forEach((id) =>
+        queryClient.removeQueries({ queryKey: queryKeys.document(id) })
+      );
+      if (deletedIds.length > 0) {
+        toast.success(
+          `Deleted ${deletedIds.length} ${
+            deletedIds.length === 1 ? "document" : "documents"
+          }`
+        );
+      }
+      if (failedIds.length > 0) {
+        toast.error(
+          `Could not delete ${failedIds.length} ${
+            failedIds.length === 1 ? "document" : "documents"
+          }`
+        );
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.documents });
+    },
+  });
+};
+
 import { useMemo } from "react";
 
 // Custom hook combining document and status queries with optimized re-renders
@@ -456,21 +336,17 @@ export const useDocumentWithStatus = (id: string) => {
   const shouldPollStatus = useMemo(() => {
     if (!id || !documentQuery.data) return false;
 
-    // Check frontend status for terminal states (mapped from backend)
-    const frontendTerminalStates = ["ready", "error"];
-    const isTerminalState = frontendTerminalStates.includes(
-      documentQuery.data.status
-    );
+    const isTerminal = isTerminalState(documentQuery.data.status);
 
     console.log("📊 Polling decision:", {
       documentId: id,
       currentStatus: documentQuery.data.status,
-      isTerminalState,
-      shouldPoll: !isTerminalState,
+      isTerminal,
+      shouldPoll: !isTerminal,
     });
 
     // Stop polling if document is in terminal state
-    return !isTerminalState;
+    return !isTerminal;
   }, [id, documentQuery.data]); // Include full data object to satisfy ESLint
 
   // Status query with conditional enabling
@@ -0,0 +1,97 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import { notebookService } from "../services";
+import { queryKeys, mutationKeys } from "../lib/queryClient";
+import { getErrorDisplayMessage } from "../utils/typeAdapters";
+import type {
+  NotebookRequest,
+  NotebookUpdateRequest,
+} from "../services/notebookService";
+import type { Notebook } from "../types";
+
+// Query: Get all notebooks
+export const useNotebooksQuery = (enabled = true) => {
+  return useQuery({
+    queryKey: queryKeys.notebooks,
+    queryFn: () => notebookService.getNotebooks(),
+    enabled,
+    staleTime: Infinity, // Only changed through the mutations below
+  });
+};
+
+// Query: Get single notebook
+export const useNotebookQuery = (id: string, enabled = true) => {
+  return useQuery({
+    queryKey: queryKeys.notebook(id),
+    queryFn: () => notebookService.getNotebook(id),
+    enabled: !!id && enabled,
+    staleTime: Infinity,
+  });
+};
+
+// Mutation: Create notebook
+export const useCreateNotebookMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.createNotebook,
+    mutationFn: (request: NotebookRequest) =>
+      notebookService.createNotebook(request),
+    onSuccess: (notebook) => {
+      queryClient.setQueryData<Notebook[]>(queryKeys.notebooks, (old = []) => [
+        notebook,
+        ...old,
+      ]);
+      queryClient.setQueryData(queryKeys.notebook(notebook.id), notebook);
+      toast.success("Notebook created");
+    },
+    onError: (error) => {
+      toast.error(getErrorDisplayMessage(error));
+    },
+  });
+};
+
+// Mutation: Update notebook
+export const useUpdateNotebookMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.updateNotebook,
+    mutationFn: ({
+      id,
+      updates,
+    }: {
+      id: string;
+      updates: NotebookUpdateRequest;
+    }) => notebookService.updateNotebook(id, updates),
+    onSuccess: (notebook) => {
+      queryClient.setQueryData<Notebook[]>(queryKeys.notebooks, (old) =>
+        old?.map((n) => (n.id === notebook.id ? notebook : n))
+      );
+      queryClient.setQueryData(queryKeys.notebook(notebook.id), notebook);
+    },
+    onError: (error) => {
+      toast.error(getErrorDisplayMessage(error));
+    },
+  });
+};
+
+// Mutation: Delete notebook
+export const useDeleteNotebookMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.deleteNotebook,
+    mutationFn: (id: string) => notebookService.deleteNotebook(id),
+    onSuccess: (_, deletedId) => {
+      queryClient.setQueryData<Notebook[]>(queryKeys.notebooks, (old) =>
+        old?.filter((notebook) => notebook.id !== deletedId)
+      );
+      queryClient.removeQueries({ queryKey: queryKeys.notebook(deletedId) });
+      toast.success("Notebook deleted");
+    },
+    onError: (error) => {
+      toast.error(getErrorDisplayMessage(error));
+    },
+  });
+};
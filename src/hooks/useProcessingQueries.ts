@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import {
+  QueryClient,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import { documentService } from "../services";
+import { queryKeys, mutationKeys } from "../lib/queryClient";
+import { getErrorDisplayMessage } from "../utils/typeAdapters";
+import { UI_MESSAGES } from "../utils/constants";
+import {
+  jobStatusToDocumentState,
+  nextDocumentState,
+} from "../utils/documentLifecycle";
+import type { Document as UIDocument } from "../types";
+import type { ProcessingConnectionState } from "../services";
+import type {
+  AsyncProcessingJob,
+  AsyncProcessingStatus,
+  ProcessingJobStatus,
+} from "../types/api";
+
+const ACTIVE_JOB_STATUSES: ProcessingJobStatus[] = ["pending", "processing"];
+
+// Apply changes to a document in both the list and its own cache entry
+const updateCachedDocument = (
+  queryClient: QueryClient,
+  documentId: string,
+  changes: Partial<UIDocument>
+) => {
+  const apply = (doc: UIDocument): UIDocument => ({
+    ...doc,
+    ...changes,
+    status: changes.status
+      ? nextDocumentState(doc.status, changes.status)
+      : doc.status,
+  });
+  queryClient.setQueryData<UIDocument>(queryKeys.document(documentId), (old) =>
+    old ? apply(old) : old
+  );
+  queryClient.setQueryData<UIDocument[]>(queryKeys.documents, (old) =>
+    old?.map((doc) => (doc.id === documentId ? apply(doc) : doc))
+  );
+};
+
+const invalidateDocument = (queryClient: QueryClient, documentId: string) => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.documents, exact: true });
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.document(documentId),
+    exact: true,
+  });
+};
+
+export const isActiveProcessingJob = (
+  job: AsyncProcessingStatus | null | undefined
+): job is AsyncProcessingStatus =>
+  !!job && ACTIVE_JOB_STATUSES.includes(job.status);
+
+// Query: Follow a document's background processing job. The job is looked up
+// from the document, so this also reattaches to it after a page reload.
+export const useProcessingJobQuery = (documentId: string, enabled = true) => {
+  const queryClient = useQueryClient();
+  const [connection, setConnection] =
+    useState<ProcessingConnectionState | null>(null);
+
+  const jobQuery = useQuery({
+    queryKey: queryKeys.processingJob(documentId),
+    queryFn: () => documentService.getCurrentProcessingJob(documentId),
+    enabled: !!documentId && enabled,
+    staleTime: 0,
+  });
+
+  const job = jobQuery.data;
+  const activeJobId = isActiveProcessingJob(job) ? job.job_id : null;
+  const websocketUrl = job?.websocket_url;
+
+  // Stream updates for the running job into the query cache
+  useEffect(() => {
+    if (!activeJobId) return;
+
+    const watcher = documentService.watchProcessingJob(
+      documentId,
+      activeJobId,
+      {
+        onUpdate: (update) =>
+          queryClient.setQueryData<AsyncProcessingStatus | null>(
+            queryKeys.processingJob(documentId),
+            (old) => (old ? { ...old, ...update } : old)
+          ),
+        onConnectionChange: setConnection,
+      },
+      websocketUrl
+    );
+
+    return () => {
+      watcher.close();
+      setConnection(null);
+    };
+  }, [activeJobId, websocketUrl, documentId, queryClient]);
+
+  // Once nothing is running, bring the document up to date. This also covers
+  // jobs that finished while the page was closed.
+  const settledStatus =
+    jobQuery.isSuccess && !activeJobId ? job?.status ?? "none" : null;
+  useEffect(() => {
+    if (!settledStatus) return;
+
+    if (settledStatus === "completed" || settledStatus === "failed") {
+      updateCachedDocument(queryClient, documentId, {
+        status: jobStatusToDocumentState(settledStatus),
+      });
+    }
+    invalidateDocument(queryClient, documentId);
+  }, [settledStatus, documentId, queryClient]);
+
+  return { ...jobQuery, connection, isLive: connection === "live" };
+};
+
+interface CancelProcessingVariables {
+  documentId: string;
+  jobId: string;
+}
+
+// Mutation: Cancel a document's running processing job
+export const useCancelProcessingMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.cancelProcessing,
+    mutationFn: async ({ jobId }: CancelProcessingVariables) => {
+      const result = await documentService.cancelProcessingJob(jobId);
+      if (!result.success) throw new Error(result.message);
+      return result;
+    },
+    onSuccess: (_result, { documentId }) => {
+      queryClient.setQueryData<AsyncProcessingStatus | null>(
+        queryKeys.processingJob(documentId),
+        (old) => (old ? { ...old, status: "cancelled" } : old)
+      );
+      updateCachedDocument(queryClient, documentId, {
+        status: "error",
+        processingError: UI_MESSAGES.PROCESSING.CANCELLED,
+      });
+      toast.success(UI_MESSAGES.PROCESSING.CANCELLED);
+    },
+    onSettled: (_result, _error, { documentId }) => {
+      invalidateDocument(queryClient, documentId);
+    },
+  });
+};
+
+const findCachedDocument = (queryClient: QueryClient, documentId: string) =>
+  queryClient.getQueryData<UIDocument>(queryKeys.document(documentId)) ??
+  queryClient
+    .getQueryData<UIDocument[]>(queryKeys.documents)
+    ?.find((doc) => doc.id === documentId);
+
+// Put back a document snapshot taken before an optimistic update
+const restoreCachedDocument = (queryClient: QueryClient, snapshot: UIDocument) => {
+  queryClient.setQueryData<UIDocument>(queryKeys.document(snapshot.id), (old) =>
+    old ? snapshot : old
+  );
+  queryClient.setQueryData<UIDocument[]>(queryKeys.documents, (old) =>
+    old?.map((doc) => (doc.id === snapshot.id ? snapshot : doc))
+  );
+};
+
+// Show the document as processing straight away; returns the prior snapshot
+const markReprocessing = (queryClient: QueryClient, documentId: string) => {
+  const previous = findCachedDocument(queryClient, documentId);
+  updateCachedDocument(queryClient, documentId, {
+    status: "processing",
+    processingError: undefined,
+  });
+  return previous;
+};
+
+// Hand a new job to useProcessingJobQuery so progress shows at once
+export const adoptProcessingJob = (
+  queryClient: QueryClient,
+  job: AsyncProcessingJob
+) => {
+  queryClient.setQueryData<AsyncProcessingStatus>(
+    queryKeys.processingJob(job.document_id),
+    {
+      job_id: job.job_id,
+      document_id: job.document_id,
+      status: job.status,
+      created_at: job.created_at,
+      websocket_url: job.websocket_url,
+    }
+  );
+  updateCachedDocument(queryClient, job.document_id, { status: "processing" });
+};
+
+interface ReprocessDocumentVariables {
+  documentId: string;
+  // Re-chunk from scratch instead of reusing the existing chunks
+  forceReprocess: boolean;
+}
+
+// Mutation: Run processing again for a failed or outdated document
+export const useReprocessDocumentMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.reprocessDocument,
+    mutationFn: ({ documentId, forceReprocess }: ReprocessDocumentVariables) =>
+      documentService.startAsyncProcessing(documentId, forceReprocess),
+    // A blind retry could start a second job for the same document
+    retry: false,
+    onMutate: async ({ documentId }) => {
+      await queryClient.cancelQueries({
+        queryKey: queryKeys.documents,
+        exact: true,
+      });
+      return { previous: markReprocessing(queryClient, documentId) };
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previous) {
+        restoreCachedDocument(queryClient, context.previous);
+      }
+      toast.error(getErrorDisplayMessage(error));
+    },
+    onSuccess: (job) => {
+      adoptProcessingJob(queryClient, job);
+      toast.success(UI_MESSAGES.PROCESSING.REPROCESS_STARTED);
+    },
+  });
+};
+
+interface ReprocessDocumentsVariables {
+  documentIds: string[];
+  forceReprocess: boolean;
+}
+
+// Mutation: Reprocess several documents; each one succeeds or fails on its own
+export const useReprocessDocumentsMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.reprocessDocuments,
+    mutationFn: async ({
+      documentIds,
+      forceReprocess,
+    }: ReprocessDocumentsVariables) => {
+      const results = await Promise.allSettled(
+        documentIds.map((id) =>
+          documentService.startAsyncProcessing(id, forceReprocess)
+        )
+      );
+      return documentIds.map((documentId, index) => ({
+        documentId,
+        result: results[index],
+      }));
+    },
+    retry: false,
+    onMutate: async ({ documentIds }) => {
+      await queryClient.cancelQueries({
+        queryKey: queryKeys.documents,
+        exact: true,
+      });
+      const previous = documentIds
+        .map((id) => markReprocessing(queryClient, id))
+        .filter((doc): doc is UIDocument => !!doc);
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      context?.previous.forEach((doc) => restoreCachedDocument(queryClient, doc));
+      toast.error(getErrorDisplayMessage(error));
+    },
+    onSuccess: (outcomes, _variables, context) => {
+      let failed = 0;
+      outcomes.forEach(({ documentId, result }) => {
+        if (result.status === "fulfilled") {
+          adoptProcessingJob(queryClient, result.value);
+          return;
+        }
+        failed++;
+        const snapshot = context?.previous.find((doc) => doc.id === documentId);
+        if (snapshot) restoreCachedDocument(queryClient, snapshot);
+      });
+
+      const started = outcomes.length - failed;
+      if (started > 0) {
+        toast.success(
+          `Reprocessing ${started} ${started === 1 ? "document" : "documents"}`
+        );
+      }
+      if (failed > 0) {
+        toast.error(
+          `Could not reprocess ${failed} ${failed === 1 ? "document" : "documents"}`
+        );
+      }
+    },
+  });
+};
@@ -0,0 +1,302 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueries, useQueryClient } from "@tanstack/react-query";
+import {
+  documentQueryOptions,
+  documentsQueryOptions,
+  useUploadDocumentMutation,
+} from "./useDocumentQueries";
+import { isCancelledError } from "../utils/apiError";
+import {
+  adaptUploadProgressEvent,
+  getErrorDisplayMessage,
+} from "../utils/typeAdapters";
+import { UPLOAD_CONFIG } from "../utils/constants";
+import { preflightPdf } from "../utils/pdfPreflight";
+import { hashFile } from "../utils/fileHash";
+import type { Document, UploadProgress, UploadQueueItem } from "../types";
+
+// Client-side lifecycle of a queued file; processing state after the upload
+// comes from the document cache
+interface QueueEntry {
+  id: string;
+  file: File;
+  state:
+    | "queued"
+    | "checking"
+    | "duplicate"
+    | "uploading"
+    | "uploaded"
+    | "failed";
+  progress?: UploadProgress;
+  documentId?: string;
+  pageCount?: number;
+  error?: string;
+  // False when preflight rejected the file, so retrying cannot help
+  retryable?: boolean;
+  duplicateOf?: Pick<Document, "id" | "name">;
+  // SHA-256 of the file, kept once computed so retries don't hash it again
+  contentHash?: string;
+  // Set once the user chose to upload a duplicate anyway
+  allowDuplicate?: boolean;
+}
+
+interface UseUploadQueueOptions {
+  concurrency?: number;
+  onUploaded?: (itemId: string, documentId: string) => void;
+}
+
+export const useUploadQueue = ({
+  concurrency = UPLOAD_CONFIG.MAX_CONCURRENT_UPLOADS,
+  onUploaded,
+}: UseUploadQueueOptions = {}) => {
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  // Content hashes of entries waiting to upload, uploading or uploaded,
+  // added as soon as each is computed so files checked side by side see
+  // each other
+  const hashesRef = useRef(new Map<string, string>());
+  const onUploadedRef = useRef(onUploaded);
+  const queryClient = useQueryClient();
+  const { mutateAsync: uploadDocument } = useUploadDocumentMutation();
+
+  useEffect(() => {
+    onUploadedRef.current = onUploaded;
+  }, [onUploaded]);
+
+  const updateEntry = useCallback(
+    (id: string, changes: Partial<QueueEntry>) => {
+      setEntries((prev) =>
+        prev.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry))
+      );
+    },
+    []
+  );
+
+  // Hash the file and look for another queue entry or an existing document
+  // with the same content. Failures here only skip the check; they never
+  // block the upload.
+  const findDuplicate = useCallback(
+    async (entry: QueueEntry, signal: AbortSignal) => {
+      let contentHash = entry.contentHash;
+      try {
+        if (!contentHash) {
+          contentHash = await hashFile(entry.file, { signal });
+          updateEntry(entry.id, { contentHash });
+        }
+
+        const queuedId = Array.from(hashesRef.current).find(
+          ([id, hash]) => id !== entry.id && hash === contentHash
+        )?.[0];
+        if (queuedId && !entry.allowDuplicate) {
+          return { contentHash, queuedId };
+        }
+        hashesRef.current.set(entry.id, contentHash);
+
+        const documents = await queryClient.fetchQuery(
+          documentsQueryOptions()
+        );
+        const existing = documents.find(
+          (doc) => doc.contentHash === contentHash
+        );
+        return { contentHash, existing };
+      } catch (error) {
+        if (!signal.aborted) {
+          console.warn("⚠️ Duplicate check skipped:", error);
+        }
+        return { contentHash };
+      }
+    },
+    [queryClient, updateEntry]
+  );
+
+  const startUpload = useCallback(
+    async (entry: QueueEntry) => {
+      const controller = new AbortController();
+      controllersRef.current.set(entry.id, controller);
+      updateEntry(entry.id, { state: "checking", error: undefined });
+
+      try {
+        // Catch files the backend would fail to parse before sending them
+        const preflight = await preflightPdf(entry.file);
+        if (controller.signal.aborted) return;
+        if (!preflight.ok) {
+          updateEntry(entry.id, {
+            state: "failed",
+            pageCount: preflight.pageCount,
+            error: preflight.issues.map((issue) => issue.message).join(" "),
+            retryable: false,
+          });
+          return;
+        }
+
+        const { contentHash, existing, queuedId } = await findDuplicate(
+          entry,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+        if (existing && !entry.allowDuplicate) {
+          hashesRef.current.delete(entry.id);
+          updateEntry(entry.id, {
+            state: "duplicate",
+            pageCount: preflight.pageCount,
+            duplicateOf: { id: existing.id, name: existing.name },
+          });
+          return;
+        }
+        if (queuedId) {
+          updateEntry(entry.id, {
+            state: "duplicate",
+            pageCount: preflight.pageCount,
+            error: "The same file is already in the upload queue",
+          });
+          return;
+        }
+
+        updateEntry(entry.id, {
+          state: "uploading",
+          pageCount: preflight.pageCount,
+          progress: { percentage: 0, status: "uploading" },
+        });
+        const result = await uploadDocument({
+          file: entry.file,
+          contentHash,
+          signal: controller.signal,
+          onUploadProgress: (event) =>
+            updateEntry(entry.id, { progress: adaptUploadProgressEvent(event) }),
+        });
+        updateEntry(entry.id, {
+          state: "uploaded",
+          progress: undefined,
+          documentId: result.document_id,
+        });
+        onUploadedRef.current?.(entry.id, result.document_id);
+      } catch (error) {
+        // Cancelled items have already been removed from the queue
+        if (isCancelledError(error)) return;
+        hashesRef.current.delete(entry.id);
+        updateEntry(entry.id, {
+          state: "failed",
+          progress: undefined,
+          error: getErrorDisplayMessage(error),
+        });
+      } finally {
+        controllersRef.current.delete(entry.id);
+      }
+    },
+    [uploadDocument, updateEntry, findDuplicate]
+  );
+
+  // Start queued files whenever an upload slot is free
+  useEffect(() => {
+    const active = entries.filter((entry) =>
+      ["checking", "uploading"].includes(entry.state)
+    );
+    const slots = Math.max(0, concurrency - active.length);
+    entries
+      .filter(
+        (entry) =>
+          entry.state === "queued" && !controllersRef.current.has(entry.id)
+      )
+      .slice(0, slots)
+      .forEach(startUpload);
+  }, [entries, concurrency, startUpload]);
+
+  // Abort anything still in flight when the queue goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  // Add files to the end of the queue; returns their item ids
+  const enqueue = useCallback((files: File[]): string[] => {
+    const added = files.map(
+      (file): QueueEntry => ({ id: crypto.randomUUID(), file, state: "queued" })
+    );
+    setEntries((prev) => [...prev, ...added]);
+    return added.map((entry) => entry.id);
+  }, []);
+
+  const retry = useCallback(
+    (id: string) => updateEntry(id, { state: "queued", error: undefined }),
+    [updateEntry]
+  );
+
+  const uploadAnyway = useCallback(
+    (id: string) =>
+      updateEntry(id, {
+        state: "queued",
+        allowDuplicate: true,
+        duplicateOf: undefined,
+        error: undefined,
+      }),
+    [updateEntry]
+  );
+
+  // Remove an item, cancelling its upload if it is still being sent
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    hashesRef.current.delete(id);
+    setEntries((prev) => prev.filter((entry) => entry.id !== id));
+  }, []);
+
+  const uploadedIds = entries
+    .map((entry) => entry.documentId)
+    .filter((id): id is string => !!id);
+  const documentResults = useQueries({
+    queries: uploadedIds.map((id) => documentQueryOptions(id)),
+  });
+  const uploadedDocuments = new Map(
+    uploadedIds.map((id, index) => [id, documentResults[index]?.data])
+  );
+
+  const items = entries.map((entry): UploadQueueItem => {
+    const base = {
+      id: entry.id,
+      file: entry.file,
+      progress: entry.progress,
+      documentId: entry.documentId,
+      pageCount: entry.pageCount,
+      duplicateOf: entry.duplicateOf,
+    };
+    if (entry.state !== "uploaded") {
+      return {
+        ...base,
+        status: entry.state,
+        error: entry.error,
+        canRetry: entry.state === "failed" && entry.retryable !== false,
+      };
+    }
+
+    const document = uploadedDocuments.get(entry.documentId!);
+    switch (document?.status) {
+      case "ready":
+        return { ...base, status: "ready", canRetry: false };
+      case "error":
+        return {
+          ...base,
+          status: "failed",
+          error: document.processingError || "Processing failed",
+          canRetry: false,
+        };
+      case "unknown":
+        return {
+          ...base,
+          status: "failed",
+          error: `Unrecognised document status "${document.backendStatus}"`,
+          canRetry: false,
+        };
+      default:
+        return { ...base, status: "processing", canRetry: false };
+    }
+  });
+
+  const clearFinished = () => {
+    const finishedIds = new Set(
+      items.filter((item) => item.status === "ready").map((item) => item.id)
+    );
+    finishedIds.forEach((id) => hashesRef.current.delete(id));
+    setEntries((prev) => prev.filter((entry) => !finishedIds.has(entry.id)));
+  };
+
+  return { items, enqueue, retry, uploadAnyway, remove, clearFinished };
+};
@@ -48,12 +48,23 @@ export const queryKeys = {
   document: (id: string) => ["documents", id] as const,
   documentStatus: (id: string) => ["documents", id, "status"] as const,
   documentContent: (id: string) => ["documents", id, "content"] as const,
+  processingJob: (documentId: string) =>
+    ["documents", documentId, "processing-job"] as const,
 
   // Chat
   chatSessions: ["chat", "sessions"] as const,
   chatSession: (id: string) => ["chat", "sessions", id] as const,
   chatMessages: (sessionId: string) =>
     ["chat", "sessions", sessionId, "messages"] as const,
+  chatSessionStats: (sessionId: string) =>
+    ["chat", "sessions", sessionId, "stats"] as const,
+
+  // Notebooks
+  notebooks: ["notebooks"] as const,
+  notebook: (id: string) => ["notebooks", id] as const,
+
+  // Bookmarks
+  bookmarks: (documentId: string) => ["bookmarks", documentId] as const,
 
   // Search
   search: (query: string, documentIds?: string[]) =>
@@ -64,8 +75,17 @@ export const queryKeys = {
   documentCitations: (documentId: string) =>
     ["citations", "document", documentId] as const,
   citation: (id: string) => ["citations", id] as const,
+  citationContext: (id: string) => ["citations", id, "context"] as const,
+  messageVerification: (messageId: string) =>
+    ["citations", "verification", messageId] as const,
   sessionCitations: (sessionId: string) =>
     ["citations", "session", sessionId] as const,
+  sessionCitationClusters: (
+    sessionId: string,
+    method: string,
+    passageKeys: string[]
+  ) =>
+    ["citations", "session", sessionId, "clusters", method, passageKeys] as const,
 
   // Advanced Search
   advancedSearch: ["advanced-search"] as const,
@@ -85,8 +105,19 @@ export const queryKeys = {
 export const mutationKeys = {
   uploadDocument: ["mutations", "uploadDocument"] as const,
   createChatSession: ["mutations", "createChatSession"] as const,
+  renameChatSession: ["mutations", "renameChatSession"] as const,
   sendMessage: ["mutations", "sendMessage"] as const,
   deleteDocument: ["mutations", "deleteDocument"] as const,
+  deleteDocuments: ["mutations", "deleteDocuments"] as const,
+  cancelProcessing: ["mutations", "cancelProcessing"] as const,
+  reprocessDocument: ["mutations", "reprocessDocument"] as const,
+  reprocessDocuments: ["mutations", "reprocessDocuments"] as const,
+  createNotebook: ["mutations", "createNotebook"] as const,
+  updateNotebook: ["mutations", "updateNotebook"] as const,
+  deleteNotebook: ["mutations", "deleteNotebook"] as const,
+  createBookmark: ["mutations", "createBookmark"] as const,
+  renameBookmark: ["mutations", "renameBookmark"] as const,
+  deleteBookmark: ["mutations", "deleteBookmark"] as const,
   advancedSearch: ["mutations", "advancedSearch"] as const,
   citations: ["mutations", "citations"] as const,
   chatSearch: (documentIds: string[]) => ["mutations", "chatSearch", documentIds] as const,
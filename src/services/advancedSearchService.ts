@@ -49,21 +49,25 @@ export interface EnhancedSearchResponse {
   timestamp: string;
 }
 
+// A source of a synthesized answer; the answer text refers to it as
+// [n], counting from 1 in list order
+export interface SynthesizedCitation {
+  id: string;
+  document_title: string;
+  page_number: number;
+  document_id: string;
+  snippet: string;
+  relevance_score: number;
+  context_before?: string;
+  context_after?: string;
+  citation_type?: string;
+  formatted_citation?: string;
+}
+
 // Synthesized Response for universal document analysis
 export interface SynthesizedResponse {
   synthesized_response: string;
-  citations: {
-    id: string;
-    document_title: string;
-    page_number: number;
-    document_id: string;
-    snippet: string;
-    relevance_score: number;
-    context_before?: string;
-    context_after?: string;
-    citation_type?: string;
-    formatted_citation?: string;
-  }[];
+  citations: SynthesizedCitation[];
   confidence: number;
   sources_used: number;
   query_analysis: {
@@ -1,10 +1,21 @@
-import type { ApiError, RequestOptions } from "../types/api";
+import type { ApiError, RequestOptions, UploadOptions } from "../types/api";
 import { getApiConfig, isDevelopment } from "../utils/apiConfig";
 import {
   handleApiError,
   ApiException,
   isRetryableError,
+  createCancelledError,
 } from "../utils/apiError";
+import { createTransferMeter } from "../utils/transferMeter";
+
+const parseResponseBody = (text: string): unknown => {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
 
 class ApiClient {
   private baseUrl: string;
@@ -179,44 +190,160 @@ class ApiClient {
     return this.makeRequest<T>(endpoint, { ...options, method: "DELETE" });
   }
 
+  // Send a request body with XMLHttpRequest, because fetch cannot report
+  // how many bytes of the body have been sent
+  private sendWithProgress<T>(
+    method: "POST" | "PUT",
+    endpoint: string,
+    body: XMLHttpRequestBodyInit,
+    options: UploadOptions = {}
+  ): Promise<T> {
+    const { timeout = this.timeout, signal, headers, onUploadProgress } =
+      options;
+    const url = `${this.baseUrl}${endpoint}`;
+
+    this.log(`Sending ${method} request with progress to ${url}`, { timeout });
+
+    if (signal?.aborted) {
+      return Promise.reject(createCancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const measure = createTransferMeter();
+
+      const handleAbort = () => xhr.abort();
+      signal?.addEventListener("abort", handleAbort);
+      const fail = (error: ApiException) => {
+        signal?.removeEventListener("abort", handleAbort);
+        reject(error);
+      };
+
+      xhr.open(method, url);
+      xhr.timeout = timeout;
+      // Content-Type defaults to the body's; FormData gets its boundary
+      Object.entries(headers || {}).forEach(([name, value]) =>
+        xhr.setRequestHeader(name, value)
+      );
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onUploadProgress?.(measure(event.loaded, event.total));
+        }
+      };
+
+      xhr.onload = () => {
+        signal?.removeEventListener("abort", handleAbort);
+        const data = parseResponseBody(xhr.responseText);
+
+        if (xhr.status >= 200 && xhr.status < 300) {
+          this.log(`Success response from ${url}`, data);
+          resolve(data as T);
+          return;
+        }
+
+        const errorData =
+          data && typeof data === "object"
+            ? (data as ApiError)
+            : {
+                error: `HTTP ${xhr.status}`,
+                message: xhr.statusText || "Request failed",
+                type: "HttpError",
+              };
+        fail(new ApiException(errorData, xhr.status));
+      };
+
+      xhr.onerror = () =>
+        fail(
+          new ApiException(
+            {
+              error: "Network Error",
+              message:
+                "Unable to connect to the server. Please check your internet connection.",
+              type: "NetworkError",
+            },
+            0
+          )
+        );
+
+      xhr.ontimeout = () =>
+        fail(
+          new ApiException(
+            {
+              error: "Request Timeout",
+              message:
+                "The upload took too long to complete. Please try again.",
+              type: "TimeoutError",
+            },
+            408
+          )
+        );
+
+      xhr.onabort = () => fail(createCancelledError());
+
+      xhr.send(body);
+    });
+  }
+
   // File upload (multipart/form-data)
   async upload<T>(
     endpoint: string,
     formData: FormData,
-    options?: RequestOptions
+    options?: UploadOptions
   ): Promise<T> {
     console.log("🌐 API Client upload called:", {
       endpoint,
       formDataEntries: Array.from(formData.entries()).map(([key, value]) => ({
         key,
         valueType: typeof value,
-        fileName: value instanceof File ? value.name : 'N/A',
-        fileSize: value instanceof File ? value.size : 'N/A'
+        fileName: value instanceof File ? value.name : "N/A",
+        fileSize: value instanceof File ? value.size : "N/A",
       })),
-      options
+      timeout: options?.timeout,
     });
 
-    const { headers, ...restOptions } = options || {};
-    
-    try {
-      console.log("🚀 About to call makeRequest for upload...");
-      const result = await this.makeRequest<T>(endpoint, {
-        ...restOptions,
-        method: "POST",
-        body: formData,
-        headers: {
-          // Don't set Content-Type for FormData - let browser set it with boundary
-          ...headers,
-        },
-      });
-      console.log("✅ Upload makeRequest completed successfully");
-      return result;
-    } catch (error) {
-      console.error("❌ Upload makeRequest failed:", error);
-      throw error;
+    const { retries = 3, ...uploadOptions } = options || {};
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendWithProgress<T>(
+          "POST",
+          endpoint,
+          formData,
+          uploadOptions
+        );
+      } catch (error) {
+        const apiError =
+          error instanceof ApiException ? error : handleApiError(error);
+
+        // Don't retry on non-retryable errors or if it's the last attempt
+        if (!isRetryableError(apiError) || attempt >= retries) {
+          throw apiError;
+        }
+
+        // Exponential backoff for retries
+        const delay = Math.pow(2, attempt) * 1000; // 1s, 2s, 4s...
+        this.log(`Retrying upload in ${delay}ms...`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
     }
   }
 
+  // Raw binary upload, e.g. one chunk of a resumable upload
+  async uploadBinary<T>(
+    endpoint: string,
+    data: Blob,
+    options?: UploadOptions
+  ): Promise<T> {
+    return this.sendWithProgress<T>("PUT", endpoint, data, {
+      ...options,
+      headers: {
+        "Content-Type": "application/octet-stream",
+        ...options?.headers,
+      },
+    });
+  }
+
   // Download file
   async download(
     endpoint: string,
@@ -0,0 +1,85 @@
+import type { Bookmark } from "../types";
+
+// Bookmarks are personal, so they are kept in the browser per document
+const STORAGE_KEY = "notebooklm.bookmarks";
+
+interface StoredBookmark {
+  id: string;
+  document_id: string;
+  page: number;
+  name: string;
+  created_at: string;
+}
+
+export interface BookmarkRequest {
+  documentId: string;
+  page: number;
+  name: string;
+}
+
+const toBookmark = (stored: StoredBookmark): Bookmark => ({
+  id: stored.id,
+  documentId: stored.document_id,
+  page: stored.page,
+  name: stored.name,
+  createdAt: new Date(stored.created_at),
+});
+
+export class BookmarkService {
+  private read(): StoredBookmark[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as StoredBookmark[]) : [];
+    } catch (error) {
+      console.error("❌ Failed to read bookmarks from storage:", error);
+      return [];
+    }
+  }
+
+  private write(bookmarks: StoredBookmark[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bookmarks));
+  }
+
+  // Get a document's bookmarks in page order
+  async getBookmarks(documentId: string): Promise<Bookmark[]> {
+    return this.read()
+      .filter((bookmark) => bookmark.document_id === documentId)
+      .sort((a, b) => a.page - b.page)
+      .map(toBookmark);
+  }
+
+  // Add a named bookmark on a page
+  async createBookmark(request: BookmarkRequest): Promise<Bookmark> {
+    const stored: StoredBookmark = {
+      id: crypto.randomUUID(),
+      document_id: request.documentId,
+      page: request.page,
+      name: request.name,
+      created_at: new Date().toISOString(),
+    };
+    this.write([...this.read(), stored]);
+    return toBookmark(stored);
+  }
+
+  // Rename a bookmark
+  async renameBookmark(id: string, name: string): Promise<Bookmark> {
+    const bookmarks = this.read();
+    const index = bookmarks.findIndex((bookmark) => bookmark.id === id);
+    if (index === -1) {
+      throw new Error(`Bookmark ${id} not found`);
+    }
+
+    bookmarks[index] = { ...bookmarks[index], name };
+    this.write(bookmarks);
+    return toBookmark(bookmarks[index]);
+  }
+
+  // Delete a bookmark
+  async deleteBookmark(id: string): Promise<void> {
+    this.write(this.read().filter((bookmark) => bookmark.id !== id));
+  }
+}
+
+// Export singleton instance
+export const bookmarkService = new BookmarkService();
+export default bookmarkService;
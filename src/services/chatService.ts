@@ -1,10 +1,14 @@
 import { apiClient } from "./apiClient";
 import { API_ENDPOINTS } from "../utils/apiConfig";
+import { ApiException } from "../utils/apiError";
 import type {
+  Citation,
   ChatSession,
   ChatMessage,
   ChatMessageRequest,
   ChatSessionRequest,
+  ChatSessionUpdateRequest,
+  ChatSessionStats,
   RequestOptions,
 } from "../types/api";
 
@@ -20,6 +24,7 @@ export class ChatService {
         session_id: request.session_id,
         document_ids: request.document_ids || (request.document_id ? [request.document_id] : undefined),
         initial_message: request.initial_message,
+        session_name: request.session_name,
         context: request.context || {}
       },
       options
@@ -39,6 +44,19 @@ export class ChatService {
     );
   }
 
+  // Update a chat session (e.g. rename it)
+  async updateSession(
+    id: string,
+    updates: ChatSessionUpdateRequest,
+    options?: RequestOptions
+  ): Promise<ChatSession> {
+    return apiClient.put<ChatSession>(
+      API_ENDPOINTS.CHAT_SESSION_BY_ID(id),
+      updates,
+      options
+    );
+  }
+
   // Send a message
   async sendMessage(
     request: ChatMessageRequest,
@@ -83,6 +101,41 @@ export class ChatService {
     onError: (error: Error) => void,
     options?: RequestOptions
   ): Promise<void> {
+    let fullMessage = "";
+    let citations: Citation[] = [];
+
+    const buildFinalMessage = (): ChatMessage => ({
+      message_id: `msg_${Date.now()}`,
+      session_id: request.session_id,
+      user_message: request.message,
+      assistant_response: fullMessage,
+      citations,
+      context_used: {
+        relevant_chunks: [],
+        document_ids: request.document_ids || [],
+        similarity_scores: [],
+        total_chunks: 0,
+        search_query: request.message,
+        metadata: {}
+      },
+      processing_time_ms: 0,
+      model_used: request.model || "gpt-3.5-turbo",
+      usage: {
+        completion_tokens: 0,
+        prompt_tokens: 0,
+        total_tokens: 0
+      },
+      metadata: {
+        finish_reason: "stop",
+        created_at: new Date().toISOString()
+      },
+      timestamp: new Date().toISOString(),
+      // Legacy fields for UI compatibility
+      id: `msg_${Date.now()}`,
+      content: fullMessage,
+      role: "assistant"
+    });
+
     try {
       const response = await fetch(
         `${apiClient["baseUrl"]}${API_ENDPOINTS.CHAT_MESSAGES}/stream`,
@@ -90,6 +143,7 @@ export class ChatService {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
+            ...options?.headers,
           },
           body: JSON.stringify(request),
           signal: options?.signal,
@@ -97,17 +151,30 @@ export class ChatService {
       );
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw new ApiException(
+          {
+            error: `HTTP ${response.status}`,
+            message: response.statusText || "Streaming request failed",
+            type: "HttpError",
+          },
+          response.status
+        );
       }
 
       const reader = response.body?.getReader();
       if (!reader) {
-        throw new Error("No response body reader available");
+        throw new ApiException(
+          {
+            error: "Stream Error",
+            message: "No response body reader available",
+            type: "StreamError",
+          },
+          501
+        );
       }
 
       const decoder = new TextDecoder();
       let buffer = "";
-      let fullMessage = "";
 
       while (true) {
         const { done, value } = await reader.read();
@@ -123,38 +190,7 @@ export class ChatService {
             const data = line.slice(6);
             if (data === "[DONE]") {
               // Stream complete
-              const finalMessage: ChatMessage = {
-                message_id: `msg_${Date.now()}`,
-                session_id: request.session_id,
-                user_message: request.message,
-                assistant_response: fullMessage,
-                citations: [],
-                context_used: {
-                  relevant_chunks: [],
-                  document_ids: [],
-                  similarity_scores: [],
-                  total_chunks: 0,
-                  search_query: request.message,
-                  metadata: {}
-                },
-                processing_time_ms: 0,
-                model_used: request.model || "gpt-3.5-turbo",
-                usage: {
-                  completion_tokens: 0,
-                  prompt_tokens: 0,
-                  total_tokens: 0
-                },
-                metadata: {
-                  finish_reason: "stop",
-                  created_at: new Date().toISOString()
-                },
-                timestamp: new Date().toISOString(),
-                // Legacy fields for UI compatibility
-                id: `msg_${Date.now()}`,
-                content: fullMessage,
-                role: "assistant"
-              };
-              onComplete(finalMessage);
+              onComplete(buildFinalMessage());
               return;
             }
 
@@ -164,12 +200,19 @@ export class ChatService {
                 fullMessage += chunk.content;
                 onMessage(chunk.content);
               }
+              // Citations are sent with the final event of the stream
+              if (Array.isArray(chunk.citations)) {
+                citations = chunk.citations;
+              }
             } catch {
               // Ignore parsing errors for incomplete JSON
             }
           }
         }
       }
+
+      // Server closed the stream without an explicit [DONE] marker
+      onComplete(buildFinalMessage());
     } catch (error) {
       onError(error as Error);
     }
@@ -179,18 +222,11 @@ export class ChatService {
   async getSessionStats(
     sessionId: string,
     options?: RequestOptions
-  ): Promise<{
-    message_count: number;
-    total_tokens?: number;
-    created_at: string;
-    last_activity: string;
-  }> {
-    return apiClient.get<{
-      message_count: number;
-      total_tokens?: number;
-      created_at: string;
-      last_activity: string;
-    }>(`${API_ENDPOINTS.CHAT_SESSION_BY_ID(sessionId)}/stats`, options);
+  ): Promise<ChatSessionStats> {
+    return apiClient.get<ChatSessionStats>(
+      `${API_ENDPOINTS.CHAT_SESSION_BY_ID(sessionId)}/stats`,
+      options
+    );
   }
 }
 
@@ -0,0 +1,262 @@
+import { apiClient } from "./apiClient";
+import { API_ENDPOINTS } from "../utils/apiConfig";
+import { UPLOAD_CONFIG } from "../utils/constants";
+import {
+  ApiException,
+  createCancelledError,
+  handleApiError,
+  isCancelledError,
+  isRetryableError,
+} from "../utils/apiError";
+import { createTransferMeter } from "../utils/transferMeter";
+import type {
+  DocumentUploadOptions,
+  DocumentUploadResponse,
+  UploadChunkResponse,
+  UploadOptions,
+  UploadSession,
+  UploadSessionRequest,
+} from "../types/api";
+
+// Unfinished uploads are remembered so a reload can pick up where it stopped
+const STORAGE_KEY = "notebooklm.uploads";
+
+interface StoredUpload {
+  upload_id: string;
+  fingerprint: string;
+  created_at: string;
+}
+
+// Identifies the same local file when it is selected again after a reload
+const fingerprintFile = (file: File) =>
+  `${file.name}:${file.size}:${file.lastModified}`;
+
+// Statuses meaning the server has no resumable upload endpoints
+const UNSUPPORTED_STATUSES = [404, 405, 501];
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export class ChunkedUploadService {
+  // Unknown until the first upload session is requested
+  private supported: boolean | null = null;
+
+  // False once the server turned down an upload session as unsupported
+  get isAvailable(): boolean {
+    return this.supported !== false;
+  }
+
+  private read(): StoredUpload[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as StoredUpload[]) : [];
+    } catch (error) {
+      console.error("❌ Failed to read uploads from storage:", error);
+      return [];
+    }
+  }
+
+  private write(uploads: StoredUpload[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(uploads));
+  }
+
+  private forget(uploadId: string): void {
+    this.write(this.read().filter((upload) => upload.upload_id !== uploadId));
+  }
+
+  // Find an unfinished upload of the same file, dropping expired entries
+  private findResumable(file: File): StoredUpload | undefined {
+    const cutoff = Date.now() - UPLOAD_CONFIG.RESUME_TTL_MS;
+    const uploads = this.read().filter(
+      (upload) => new Date(upload.created_at).getTime() > cutoff
+    );
+    this.write(uploads);
+    return uploads.find(
+      (upload) => upload.fingerprint === fingerprintFile(file)
+    );
+  }
+
+  // Resume the stored upload session for this file, or start a new one
+  private async openSession(
+    file: File,
+    signal?: AbortSignal,
+    contentHash?: string
+  ): Promise<UploadSession> {
+    const stored = this.findResumable(file);
+    if (stored) {
+      try {
+        const session = await apiClient.get<UploadSession>(
+          API_ENDPOINTS.UPLOAD_SESSION_BY_ID(stored.upload_id),
+          { signal }
+        );
+        console.log("♻️ Resuming upload:", {
+          uploadId: session.upload_id,
+          receivedBytes: session.received_bytes,
+          fileSize: session.file_size,
+        });
+        return session;
+      } catch (error) {
+        if (signal?.aborted) throw createCancelledError();
+        // Expired or unknown on the server - start over
+        console.warn("⚠️ Could not resume upload, starting over:", error);
+        this.forget(stored.upload_id);
+      }
+    }
+
+    const request: UploadSessionRequest = {
+      filename: file.name,
+      file_size: file.size,
+      content_type: file.type || "application/pdf",
+      chunk_size: UPLOAD_CONFIG.CHUNK_SIZE,
+      content_hash: contentHash,
+      auto_process: true,
+      enable_optimization: true,
+      client_id: crypto.randomUUID(),
+    };
+    let session: UploadSession;
+    try {
+      session = await apiClient.post<UploadSession>(
+        API_ENDPOINTS.UPLOAD_SESSIONS,
+        request,
+        { signal }
+      );
+    } catch (error) {
+      const apiError =
+        error instanceof ApiException ? error : handleApiError(error);
+      if (UNSUPPORTED_STATUSES.includes(apiError.status)) {
+        this.supported = false;
+      }
+      throw apiError;
+    }
+    this.supported = true;
+
+    this.write([
+      ...this.read(),
+      {
+        upload_id: session.upload_id,
+        fingerprint: fingerprintFile(file),
+        created_at: new Date().toISOString(),
+      },
+    ]);
+    return session;
+  }
+
+  // Send the chunk starting at `offset`, retrying transient failures.
+  // Returns the server's offset afterwards, which after a failure may not
+  // be the end of this chunk.
+  private async sendChunk(
+    session: UploadSession,
+    file: File,
+    offset: number,
+    options: UploadOptions
+  ): Promise<number> {
+    const { signal, onUploadProgress } = options;
+    const chunkSize = session.chunk_size || UPLOAD_CONFIG.CHUNK_SIZE;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await apiClient.uploadBinary<UploadChunkResponse>(
+          API_ENDPOINTS.UPLOAD_CHUNK(session.upload_id, offset),
+          file.slice(offset, offset + chunkSize),
+          {
+            signal,
+            timeout: UPLOAD_CONFIG.CHUNK_TIMEOUT_MS,
+            onUploadProgress,
+          }
+        );
+        return response.received_bytes;
+      } catch (error) {
+        const apiError =
+          error instanceof ApiException ? error : handleApiError(error);
+        // 409 means the server is at a different offset than we are
+        const canRetry =
+          !isCancelledError(apiError) &&
+          attempt < UPLOAD_CONFIG.CHUNK_MAX_RETRIES &&
+          (apiError.status === 409 || isRetryableError(apiError));
+        if (!canRetry) throw apiError;
+
+        if (apiError.status !== 409) {
+          const delay = Math.pow(2, attempt) * 1000; // 1s, 2s, 4s...
+          console.warn(`⚠️ Chunk at ${offset} failed, retrying in ${delay}ms`);
+          await wait(delay, signal);
+        }
+
+        // Continue from whatever the server actually stored
+        const current = await apiClient.get<UploadSession>(
+          API_ENDPOINTS.UPLOAD_SESSION_BY_ID(session.upload_id),
+          { signal }
+        );
+        if (current.received_bytes !== offset) {
+          return current.received_bytes;
+        }
+      }
+    }
+  }
+
+  // Upload a file in chunks, resuming an earlier unfinished upload of it
+  async upload(
+    file: File,
+    options: DocumentUploadOptions = {}
+  ): Promise<DocumentUploadResponse> {
+    const { signal, onUploadProgress, contentHash } = options;
+    const measure = createTransferMeter();
+    const report = (loaded: number) =>
+      onUploadProgress?.(measure(loaded, file.size));
+
+    const session = await this.openSession(
+      file,
+      signal,
+      contentHash
+    ).catch((error) => {
+      throw signal?.aborted ? createCancelledError() : error;
+    });
+    let offset = session.received_bytes;
+    report(offset);
+
+    try {
+      while (offset < file.size) {
+        const chunkStart = offset;
+        offset = await this.sendChunk(session, file, chunkStart, {
+          signal,
+          onUploadProgress: (event) => report(chunkStart + event.loaded),
+        });
+        report(offset);
+      }
+
+      const result = await apiClient.post<DocumentUploadResponse>(
+        API_ENDPOINTS.UPLOAD_COMPLETE(session.upload_id),
+        undefined,
+        { signal }
+      );
+      this.forget(session.upload_id);
+      console.log("✅ Chunked upload completed:", result);
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        // A cancelled upload is abandoned rather than kept for resuming
+        this.forget(session.upload_id);
+        apiClient
+          .delete(API_ENDPOINTS.UPLOAD_SESSION_BY_ID(session.upload_id))
+          .catch((deleteError) =>
+            console.warn("⚠️ Failed to discard upload:", deleteError)
+          );
+        throw createCancelledError();
+      }
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const chunkedUploadService = new ChunkedUploadService();
+export default chunkedUploadService;
@@ -1,6 +1,11 @@
 import { apiClient } from "./apiClient";
 import { API_ENDPOINTS } from "../utils/apiConfig";
-import type { Citation, CitationRequest, RequestOptions } from "../types/api";
+import type {
+  Citation,
+  CitationContext,
+  CitationRequest,
+  RequestOptions,
+} from "../types/api";
 
 export class CitationService {
   // Extract citations from a document
@@ -53,12 +58,8 @@ export class CitationService {
     citationId: string,
     contextLength: number = 200,
     options?: RequestOptions
-  ): Promise<{ before: string; after: string; full_context: string }> {
-    return apiClient.get<{
-      before: string;
-      after: string;
-      full_context: string;
-    }>(
+  ): Promise<CitationContext> {
+    return apiClient.get<CitationContext>(
       `${API_ENDPOINTS.CITATIONS}/${citationId}/context?length=${contextLength}`,
       options
     );
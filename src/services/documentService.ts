@@ -1,18 +1,28 @@
 import { apiClient } from "./apiClient";
+import { chunkedUploadService } from "./chunkedUploadService";
+import {
+  ProcessingJobWatcher,
+  type ProcessingConnectionState,
+  type ProcessingJobListener,
+} from "./processingJobWatcher";
 import { API_ENDPOINTS } from "../utils/apiConfig";
+import { UPLOAD_CONFIG } from "../utils/constants";
+import {
+  getProcessingStageProgress,
+  toDocumentState,
+  type DocumentState,
+} from "../utils/documentLifecycle";
 import type {
   Document,
   DocumentUploadResponse,
   RequestOptions,
+  DocumentUploadOptions,
+  AsyncProcessingJob,
+  AsyncProcessingStatus,
 } from "../types/api";
 
-// Define status types for backend and frontend
-type BackendDocumentStatus = 'uploaded' | 'pending' | 'processing' | 'completed' | 'error' | 'processed';
-type FrontendDocumentStatus = 'uploading' | 'processing' | 'ready' | 'error';
-
-// Define DocumentStatus type for status polling
-interface DocumentStatus {
-  status: FrontendDocumentStatus;
+export interface DocumentStatus {
+  status: DocumentState;
   processing_stage?: string;
   page_count?: number;
   chunk_count?: number;
@@ -21,49 +31,20 @@ interface DocumentStatus {
   error_message?: string | null;
 }
 
-// Define types for async processing
-interface AsyncProcessingJob {
-  job_id: string;
-  document_id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
-  created_at: string;
-  started_at?: string;
-  completed_at?: string;
-  error_message?: string;
-  message: string;
-  status_url: string;
-  websocket_url: string;
-}
-
-interface ProcessingProgress {
-  total_pages: number;
-  processed_pages: number;
-  total_chunks: number;
-  processed_chunks: number;
-  vectorized_chunks: number;
-  current_stage: string;
-  memory_usage_mb: number;
-  processing_time_ms: number;
-  completion_percentage: number;
-  estimated_remaining_ms?: number;
-}
-
-interface AsyncProcessingStatus {
-  job_id: string;
-  document_id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
-  created_at: string;
-  started_at?: string;
-  completed_at?: string;
-  error_message?: string;
-  progress?: ProcessingProgress;
+// One watcher per job, shared by every view following it
+interface SharedJobWatcher {
+  watcher: ProcessingJobWatcher;
+  listeners: Set<ProcessingJobListener>;
+  connection: ProcessingConnectionState | null;
 }
 
 export class DocumentService {
+  private readonly jobWatchers = new Map<string, SharedJobWatcher>();
+
   // Upload a document with automatic optimization for large files
   async uploadDocument(
     file: File,
-    options?: RequestOptions
+    options?: DocumentUploadOptions
   ): Promise<DocumentUploadResponse> {
     const fileSizeMB = file.size / (1024 * 1024);
     
@@ -74,15 +55,20 @@ export class DocumentService {
       type: file.type
     });
 
-    // Use optimized large file upload for files > 10MB to prevent crashes and performance issues
-    if (fileSizeMB > 10) {
-      console.log("🚀 Using optimized large file upload for", fileSizeMB.toFixed(2) + 'MB file');
+    // Large files go through the resumable chunked upload so a dropped
+    // connection doesn't mean starting over
+    if (file.size > UPLOAD_CONFIG.CHUNKED_UPLOAD_THRESHOLD) {
+      console.log("🚀 Using chunked upload for", fileSizeMB.toFixed(2) + 'MB file');
       return this.uploadLargeDocument(file, options);
     }
 
     // Use standard upload for smaller files
+    const { contentHash, ...uploadOptions } = options || {};
     const formData = new FormData();
     formData.append("file", file);
+    if (contentHash) {
+      formData.append("content_hash", contentHash);
+    }
 
     const uploadTimeout = Math.max(60000, fileSizeMB * 5000); // 5 seconds per MB, minimum 1 minute
     
@@ -94,7 +80,7 @@ export class DocumentService {
         formData,
         {
           timeout: uploadTimeout,
-          ...options
+          ...uploadOptions
         }
       );
       
@@ -106,40 +92,55 @@ export class DocumentService {
     }
   }
 
-  // Optimized upload for large files (>10MB) with streaming and progress tracking
+  // Resumable chunked upload for large files, falling back to a single
+  // request when the server has no resumable upload endpoints
   async uploadLargeDocument(
     file: File,
-    options?: RequestOptions
+    options?: DocumentUploadOptions
   ): Promise<DocumentUploadResponse> {
-    console.log("🚀 Starting optimized large file upload:", {
+    console.log("🚀 Starting chunked upload:", {
       filename: file.name,
       size: file.size,
       sizeMB: (file.size / (1024 * 1024)).toFixed(2) + 'MB',
       type: file.type
     });
 
+    if (chunkedUploadService.isAvailable) {
+      try {
+        return await chunkedUploadService.upload(file, options);
+      } catch (error) {
+        if (chunkedUploadService.isAvailable) {
+          console.error("❌ Chunked upload failed:", error);
+          throw error;
+        }
+        console.warn("⚠️ Resumable uploads not supported, uploading in one request");
+      }
+    }
+
+    const { contentHash, ...uploadOptions } = options || {};
     const formData = new FormData();
     formData.append("file", file);
     formData.append("auto_process", "true");
     formData.append("enable_optimization", "true");
     formData.append("client_id", crypto.randomUUID());
+    if (contentHash) {
+      formData.append("content_hash", contentHash);
+    }
 
     // Extended timeout for large files (up to 30 minutes)
     const fileSizeMB = file.size / (1024 * 1024);
     const uploadTimeout = Math.max(300000, fileSizeMB * 15000); // 15 seconds per MB, minimum 5 minutes
-    
-    console.log(`⏱️ Large file upload timeout set to: ${Math.round(uploadTimeout / 1000)} seconds`);
 
     try {
       const result = await apiClient.upload<DocumentUploadResponse>(
-        "/documents/upload-large", // Use optimized large file endpoint
+        API_ENDPOINTS.DOCUMENT_UPLOAD_LARGE,
         formData,
         {
           timeout: uploadTimeout,
-          ...options
+          ...uploadOptions
         }
       );
-      
+
       console.log("✅ Large file upload completed successfully:", result);
       return result;
     } catch (error) {
@@ -250,7 +251,7 @@ export class DocumentService {
   ): Promise<AsyncProcessingStatus> {
     try {
       const response = await apiClient.get<AsyncProcessingStatus>(
-        `/documents/${documentId}/processing-status/${jobId}`
+        API_ENDPOINTS.PROCESSING_JOB_STATUS(documentId, jobId)
       );
       
       return response;
@@ -261,21 +262,18 @@ export class DocumentService {
   }
 
   // Get current processing job for a document
+  // Resolves to null only when the server reports no job; request failures
+  // are thrown so callers can retry instead of treating them as "no job"
   async getCurrentProcessingJob(documentId: string): Promise<AsyncProcessingStatus | null> {
-    try {
-      const response = await apiClient.get<AsyncProcessingStatus | { status: string; message: string }>(
-        `/documents/${documentId}/processing-status`
-      );
-      
-      // Check if there's an active job
-      if ('job_id' in response) {
-        return response as AsyncProcessingStatus;
-      } else {
-        // No active job
-        return null;
-      }
-    } catch (error) {
-      console.error('❌ Error getting current processing job:', error);
+    const response = await apiClient.get<AsyncProcessingStatus | { status: string; message: string }>(
+      API_ENDPOINTS.DOCUMENT_PROCESSING_STATUS(documentId)
+    );
+
+    // Check if there's an active job
+    if ('job_id' in response) {
+      return response as AsyncProcessingStatus;
+    } else {
+      // No active job
       return null;
     }
   }
@@ -295,57 +293,54 @@ export class DocumentService {
     }
   }
 
-  // Create WebSocket connection for real-time progress updates
-  createProgressWebSocket(
+  // Follow a processing job's progress over its WebSocket, falling back to
+  // polling while the socket is down. Callers following the same job share
+  // one connection. Call close() on the result to stop.
+  watchProcessingJob(
+    documentId: string,
     jobId: string,
-    onProgress: (progress: ProcessingProgress) => void,
-    onStatusChange: (status: string) => void,
-    onError: (error: string) => void
-  ): WebSocket {
-    const wsUrl = `ws://localhost:8000/api/v1/documents/progress/${jobId}`;
-    console.log('🔌 Creating WebSocket connection:', wsUrl);
-    
-    const ws = new WebSocket(wsUrl);
-    
-    ws.onopen = () => {
-      console.log('✅ WebSocket connected for job:', jobId);
-      // Send ping to keep connection alive
-      setInterval(() => {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({ type: 'ping' }));
-        }
-      }, 30000);
-    };
-    
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        if (data.type === 'progress_update' && data.progress) {
-          onProgress(data.progress);
-        } else if (data.type === 'job_status') {
-          onStatusChange(data.status);
-        } else if (data.type === 'pong') {
-          // Ignore pong responses
+    listener: ProcessingJobListener,
+    websocketUrl?: string
+  ): { close: () => void } {
+    let shared = this.jobWatchers.get(jobId);
+    if (!shared || shared.watcher.isClosed) {
+      const entry: Omit<SharedJobWatcher, "watcher"> = {
+        listeners: new Set(),
+        connection: null,
+      };
+      const watcher = new ProcessingJobWatcher(
+        documentId,
+        jobId,
+        {
+          onUpdate: (update) =>
+            entry.listeners.forEach((each) => each.onUpdate(update)),
+          onConnectionChange: (connection) => {
+            entry.connection = connection;
+            entry.listeners.forEach((each) =>
+              each.onConnectionChange?.(connection)
+            );
+          },
+        },
+        websocketUrl
+      );
+      shared = Object.assign(entry, { watcher });
+      this.jobWatchers.set(jobId, shared);
+    }
+
+    const current = shared;
+    current.listeners.add(listener);
+    if (current.connection) listener.onConnectionChange?.(current.connection);
+
+    return {
+      close: () => {
+        current.listeners.delete(listener);
+        if (current.listeners.size > 0) return;
+        current.watcher.close();
+        if (this.jobWatchers.get(jobId) === current) {
+          this.jobWatchers.delete(jobId);
         }
-      } catch (error) {
-        console.error('❌ Error parsing WebSocket message:', error);
-      }
+      },
     };
-    
-    ws.onerror = (error) => {
-      console.error('❌ WebSocket error:', error);
-      onError('WebSocket connection error');
-    };
-    
-    ws.onclose = (event) => {
-      console.log('🔌 WebSocket closed:', event.code, event.reason);
-      if (event.code !== 1000) {
-        onError('WebSocket connection closed unexpectedly');
-      }
-    };
-    
-    return ws;
   }
 
   // Check document processing status
@@ -356,7 +351,7 @@ export class DocumentService {
         id: string;
         name: string;
         url?: string;
-        status: BackendDocumentStatus;
+        status: string;
         processing_stage?: string;
         page_count?: number;
         metadata?: {
@@ -373,33 +368,14 @@ export class DocumentService {
         API_ENDPOINTS.DOCUMENT_BY_ID(documentId)
       );
 
-      // Calculate progress based on processing stage
-      const progressPercentage = this.calculateProgressPercentage(response.processing_stage || 'uploaded');
-      
-      // Map backend status to frontend status
-      let frontendStatus: FrontendDocumentStatus;
-      switch (response.status) {
-        case 'processed':
-        case 'completed':
-          frontendStatus = 'ready';
-          break;
-        case 'error':
-          frontendStatus = 'error';
-          break;
-        case 'processing':
-          frontendStatus = 'processing';
-          break;
-        case 'uploaded':
-        case 'pending':
-        default:
-          frontendStatus = 'processing';
-      }
-      
-      // Log status mapping for debugging
-      console.log(`Status mapping: ${response.status} -> ${frontendStatus} (${progressPercentage}%)`);
-      
+      const state = toDocumentState(response.status);
+      const progressPercentage = getProcessingStageProgress(
+        response.processing_stage || "uploaded"
+      );
+      console.log(`Status mapping: ${response.status} -> ${state} (${progressPercentage}%)`);
+
       return {
-        status: frontendStatus,
+        status: state,
         processing_stage: response.processing_stage || 'uploaded',
         page_count: response.page_count,
         chunk_count: response.metadata?.chunk_count as number,
@@ -417,29 +393,6 @@ export class DocumentService {
     }
   }
 
-  // Helper method to calculate progress percentage based on status and stage
-  private calculateProgressPercentage(processing_stage?: string): number {
-    if (!processing_stage) return 0;
-    
-    // Updated progress mapping based on confirmed backend processing stages
-    const stageProgress: Record<string, number> = {
-      'upload_complete': 10,
-      'uploaded': 10,
-      'text_extraction': 20,
-      'parsing_started': 30,
-      'chunking': 50,
-      'vectorization': 70,
-      'indexing': 85,
-      'complete': 100,
-      'processed': 100, // Legacy status mapping
-      'completed': 100, // Legacy status mapping
-      'parsing_failed': 0,
-      'error': 0
-    };
-    
-    return stageProgress[processing_stage.toLowerCase()] || 0;
-  }
-
   // Download document
   async downloadDocument(
     id: string,
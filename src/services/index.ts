@@ -1,10 +1,21 @@
 export { apiClient, default as ApiClient } from "./apiClient";
 export { documentService, DocumentService } from "./documentService";
+export {
+  chunkedUploadService,
+  ChunkedUploadService,
+} from "./chunkedUploadService";
+export { ProcessingJobWatcher } from "./processingJobWatcher";
+export type {
+  ProcessingConnectionState,
+  ProcessingJobListener,
+} from "./processingJobWatcher";
 export { chatService, ChatService } from "./chatService";
 export { searchService, SearchService } from "./searchService";
 export { citationService, CitationService } from "./citationService";
 export { advancedSearchService, AdvancedSearchService } from "./advancedSearchService";
 export { citationsService, CitationsService } from "./citationsService";
+export { notebookService, NotebookService } from "./notebookService";
+export { bookmarkService, BookmarkService } from "./bookmarkService";
 
 export type {
   ApiResponse,
@@ -17,6 +28,8 @@ export type {
   ChatMessage,
   ChatMessageRequest,
   ChatSessionRequest,
+  ChatSessionUpdateRequest,
+  ChatSessionStats,
   Citation,
   CitationRequest,
   SearchRequest,
@@ -26,6 +39,7 @@ export type {
 
 export {
   getApiConfig,
+  getWebSocketUrl,
   isDevelopment,
   isProduction,
   API_ENDPOINTS,
@@ -0,0 +1,111 @@
+import type { Notebook } from "../types";
+
+// Notebooks live in the browser until the backend exposes an endpoint for them
+const STORAGE_KEY = "notebooklm.notebooks";
+
+interface StoredNotebook {
+  id: string;
+  name: string;
+  document_ids: string[];
+  session_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotebookRequest {
+  name: string;
+  documentIds: string[];
+}
+
+export interface NotebookUpdateRequest {
+  name?: string;
+  documentIds?: string[];
+  sessionId?: string;
+}
+
+const toNotebook = (stored: StoredNotebook): Notebook => ({
+  id: stored.id,
+  name: stored.name,
+  documentIds: stored.document_ids,
+  sessionId: stored.session_id,
+  createdAt: new Date(stored.created_at),
+  updatedAt: new Date(stored.updated_at),
+});
+
+export class NotebookService {
+  private read(): StoredNotebook[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as StoredNotebook[]) : [];
+    } catch (error) {
+      console.error("❌ Failed to read notebooks from storage:", error);
+      return [];
+    }
+  }
+
+  private write(notebooks: StoredNotebook[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(notebooks));
+  }
+
+  // Get all notebooks
+  async getNotebooks(): Promise<Notebook[]> {
+    return this.read().map(toNotebook);
+  }
+
+  // Get notebook by ID
+  async getNotebook(id: string): Promise<Notebook> {
+    const stored = this.read().find((notebook) => notebook.id === id);
+    if (!stored) {
+      throw new Error(`Notebook ${id} not found`);
+    }
+    return toNotebook(stored);
+  }
+
+  // Create a notebook grouping several documents
+  async createNotebook(request: NotebookRequest): Promise<Notebook> {
+    const now = new Date().toISOString();
+    const stored: StoredNotebook = {
+      id: crypto.randomUUID(),
+      name: request.name,
+      document_ids: request.documentIds,
+      created_at: now,
+      updated_at: now,
+    };
+    this.write([stored, ...this.read()]);
+    return toNotebook(stored);
+  }
+
+  // Update notebook name, sources or linked chat session
+  async updateNotebook(
+    id: string,
+    updates: NotebookUpdateRequest
+  ): Promise<Notebook> {
+    const notebooks = this.read();
+    const index = notebooks.findIndex((notebook) => notebook.id === id);
+    if (index === -1) {
+      throw new Error(`Notebook ${id} not found`);
+    }
+
+    const updated: StoredNotebook = {
+      ...notebooks[index],
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.documentIds !== undefined && {
+        document_ids: updates.documentIds,
+      }),
+      ...(updates.sessionId !== undefined && { session_id: updates.sessionId }),
+      updated_at: new Date().toISOString(),
+    };
+    notebooks[index] = updated;
+    this.write(notebooks);
+    return toNotebook(updated);
+  }
+
+  // Delete notebook (documents themselves are kept)
+  async deleteNotebook(id: string): Promise<void> {
+    this.write(this.read().filter((notebook) => notebook.id !== id));
+  }
+}
+
+// Export singleton instance
+export const notebookService = new NotebookService();
+export default notebookService;
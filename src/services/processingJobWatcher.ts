@@ -0,0 +1,280 @@
+import { apiClient } from "./apiClient";
+import { API_ENDPOINTS, getWebSocketUrl } from "../utils/apiConfig";
+import { PROCESSING_SOCKET_CONFIG } from "../utils/constants";
+import type {
+  AsyncProcessingStatus,
+  ProcessingJobStatus,
+  ProcessingJobUpdate,
+  ProcessingSocketMessage,
+} from "../types/api";
+
+export type ProcessingConnectionState =
+  | "connecting"
+  | "live"
+  | "reconnecting"
+  | "polling";
+
+export interface ProcessingJobListener {
+  onUpdate: (update: ProcessingJobUpdate) => void;
+  onConnectionChange?: (state: ProcessingConnectionState) => void;
+}
+
+const FINISHED_JOB_STATUSES: ProcessingJobStatus[] = [
+  "completed",
+  "failed",
+  "cancelled",
+];
+
+const parseSocketMessage = (data: unknown): ProcessingSocketMessage | null => {
+  if (typeof data !== "string") return null;
+  try {
+    const message = JSON.parse(data);
+    switch (message?.type) {
+      case "progress_update":
+        return message.progress ? message : null;
+      case "job_status":
+        return typeof message.status === "string" ? message : null;
+      case "pong":
+        return message;
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.error("❌ Error parsing WebSocket message:", error);
+    return null;
+  }
+};
+
+// Fields the server left out must not wipe what is already known
+const withoutEmpty = (update: ProcessingJobUpdate): ProcessingJobUpdate =>
+  Object.fromEntries(
+    Object.entries(update).filter(([, value]) => value != null)
+  ) as ProcessingJobUpdate;
+
+const toJobUpdate = (message: ProcessingSocketMessage): ProcessingJobUpdate | null => {
+  switch (message.type) {
+    case "progress_update":
+      return { progress: message.progress };
+    case "job_status":
+      return withoutEmpty({
+        status: message.status,
+        error_message: message.error_message,
+      });
+    case "pong":
+      return null;
+  }
+};
+
+// Follows one processing job over its progress WebSocket. Dropped or silent
+// connections are reconnected with exponential backoff; the job status is
+// polled whenever the socket is down so updates keep arriving either way.
+export class ProcessingJobWatcher {
+  private socket: WebSocket | null = null;
+  private heartbeatTimer: number | null = null;
+  private heartbeatDeadline: number | null = null;
+  private reconnectTimer: number | null = null;
+  private pollTimer: number | null = null;
+  // Bumped when polling stops so in-flight polls are discarded
+  private pollGeneration = 0;
+  private isPolling = false;
+  private reconnectAttempts = 0;
+  private closed = false;
+  private readonly documentId: string;
+  private readonly jobId: string;
+  private readonly listener: ProcessingJobListener;
+  private readonly url: string;
+
+  constructor(
+    documentId: string,
+    jobId: string,
+    listener: ProcessingJobListener,
+    websocketUrl?: string
+  ) {
+    this.documentId = documentId;
+    this.jobId = jobId;
+    this.listener = listener;
+    this.url = getWebSocketUrl(
+      API_ENDPOINTS.PROCESSING_PROGRESS_SOCKET(jobId),
+      websocketUrl
+    );
+    this.connect();
+  }
+
+  // True once stopped, either by close() or because the job finished
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  // Stop watching; no further updates are delivered
+  close(): void {
+    this.closed = true;
+    this.stopPolling();
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.dropSocket();
+  }
+
+  private connect(): void {
+    if (this.closed) return;
+    this.listener.onConnectionChange?.(
+      this.reconnectAttempts === 0 ? "connecting" : "reconnecting"
+    );
+    console.log("🔌 Creating WebSocket connection:", this.url);
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error("❌ WebSocket could not be created:", error);
+      this.handleDisconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log("✅ WebSocket connected for job:", this.jobId);
+      this.stopPolling();
+      this.startHeartbeat();
+      this.listener.onConnectionChange?.("live");
+    };
+
+    socket.onmessage = (event) => {
+      // Only a connection that actually delivers counts as recovered, so a
+      // server that accepts and then drops sockets still backs off
+      this.reconnectAttempts = 0;
+      this.clearHeartbeatDeadline();
+      const message = parseSocketMessage(event.data);
+      const update = message && toJobUpdate(message);
+      if (update) this.deliver(update);
+    };
+
+    // onclose always follows, which is where reconnecting happens
+    socket.onerror = (error) => {
+      console.warn("⚠️ WebSocket error for job:", this.jobId, error);
+    };
+
+    socket.onclose = (event) => {
+      console.log("🔌 WebSocket closed:", event.code, event.reason);
+      this.handleDisconnect();
+    };
+  }
+
+  private deliver(update: ProcessingJobUpdate): void {
+    if (this.closed) return;
+    this.listener.onUpdate(update);
+    if (update.status && FINISHED_JOB_STATUSES.includes(update.status)) {
+      this.close();
+    }
+  }
+
+  // Detach and close the current socket without triggering a reconnect
+  private dropSocket(): void {
+    this.stopHeartbeat();
+    const socket = this.socket;
+    if (!socket) return;
+    this.socket = null;
+    socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+    if (
+      socket.readyState === WebSocket.OPEN ||
+      socket.readyState === WebSocket.CONNECTING
+    ) {
+      socket.close(1000);
+    }
+  }
+
+  private handleDisconnect(): void {
+    this.dropSocket();
+    if (this.closed) return;
+
+    this.startPolling();
+    if (this.reconnectAttempts >= PROCESSING_SOCKET_CONFIG.MAX_RECONNECT_ATTEMPTS) {
+      console.warn("⚠️ Giving up on WebSocket, polling job:", this.jobId);
+      return;
+    }
+
+    const delay = Math.min(
+      PROCESSING_SOCKET_CONFIG.RECONNECT_BASE_DELAY_MS *
+        2 ** this.reconnectAttempts,
+      PROCESSING_SOCKET_CONFIG.RECONNECT_MAX_DELAY_MS
+    );
+    this.reconnectAttempts++;
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // Ping periodically and treat a silent connection as dropped
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = window.setInterval(() => {
+      if (this.socket?.readyState !== WebSocket.OPEN) return;
+      this.socket.send(JSON.stringify({ type: "ping" }));
+      if (this.heartbeatDeadline === null) {
+        this.heartbeatDeadline = window.setTimeout(() => {
+          console.warn("⚠️ WebSocket heartbeat timed out for job:", this.jobId);
+          this.handleDisconnect();
+        }, PROCESSING_SOCKET_CONFIG.HEARTBEAT_TIMEOUT_MS);
+      }
+    }, PROCESSING_SOCKET_CONFIG.HEARTBEAT_INTERVAL_MS);
+  }
+
+  private clearHeartbeatDeadline(): void {
+    if (this.heartbeatDeadline !== null) {
+      clearTimeout(this.heartbeatDeadline);
+      this.heartbeatDeadline = null;
+    }
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearHeartbeatDeadline();
+  }
+
+  private startPolling(): void {
+    if (this.isPolling || this.closed) return;
+    this.isPolling = true;
+    this.listener.onConnectionChange?.("polling");
+
+    const generation = ++this.pollGeneration;
+    const isCurrent = () => !this.closed && generation === this.pollGeneration;
+    const poll = async () => {
+      try {
+        const status = await apiClient.get<AsyncProcessingStatus>(
+          API_ENDPOINTS.PROCESSING_JOB_STATUS(this.documentId, this.jobId)
+        );
+        if (!isCurrent()) return;
+        this.deliver(
+          withoutEmpty({
+            status: status.status,
+            progress: status.progress,
+            error_message: status.error_message,
+          })
+        );
+      } catch (error) {
+        console.error("❌ Error polling processing status:", error);
+      }
+      if (isCurrent()) {
+        this.pollTimer = window.setTimeout(
+          poll,
+          PROCESSING_SOCKET_CONFIG.POLL_INTERVAL_MS
+        );
+      }
+    };
+    this.pollTimer = window.setTimeout(poll, 0);
+  }
+
+  private stopPolling(): void {
+    this.isPolling = false;
+    this.pollGeneration++;
+    if (this.pollTimer !== null) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
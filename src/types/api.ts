@@ -40,6 +40,96 @@ export interface DocumentUploadResponse {
   message: string;
 }
 
+// Resumable (chunked) upload types
+export interface UploadSessionRequest {
+  filename: string;
+  file_size: number;
+  content_type: string;
+  chunk_size: number;
+  content_hash?: string;
+  auto_process: boolean;
+  enable_optimization: boolean;
+  client_id: string;
+}
+
+export interface UploadSession {
+  upload_id: string;
+  filename: string;
+  file_size: number;
+  chunk_size: number;
+  // Bytes the server has stored; the next chunk starts at this offset
+  received_bytes: number;
+  expires_at?: string;
+}
+
+export interface UploadChunkResponse {
+  upload_id: string;
+  received_bytes: number;
+}
+
+// Background processing job types
+export type ProcessingJobStatus =
+  | "pending"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface AsyncProcessingJob {
+  job_id: string;
+  document_id: string;
+  status: ProcessingJobStatus;
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
+  error_message?: string;
+  message: string;
+  status_url: string;
+  websocket_url: string;
+}
+
+export interface ProcessingProgress {
+  total_pages: number;
+  processed_pages: number;
+  total_chunks: number;
+  processed_chunks: number;
+  vectorized_chunks: number;
+  current_stage: string;
+  memory_usage_mb: number;
+  processing_time_ms: number;
+  completion_percentage: number;
+  estimated_remaining_ms?: number;
+}
+
+export interface AsyncProcessingStatus {
+  job_id: string;
+  document_id: string;
+  status: ProcessingJobStatus;
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
+  error_message?: string;
+  progress?: ProcessingProgress;
+  // Only known for jobs started from this page
+  websocket_url?: string;
+}
+
+// Messages sent by the server on the processing progress WebSocket
+export type ProcessingSocketMessage =
+  | { type: "progress_update"; job_id?: string; progress: ProcessingProgress }
+  | {
+      type: "job_status";
+      job_id?: string;
+      status: ProcessingJobStatus;
+      error_message?: string;
+    }
+  | { type: "pong" };
+
+// A change to a processing job, whether pushed over the WebSocket or polled
+export type ProcessingJobUpdate = Partial<
+  Pick<AsyncProcessingStatus, "status" | "progress" | "error_message">
+>;
+
 // Chat Types
 export interface ChatSession {
   session_id: string;
@@ -53,6 +143,18 @@ export interface ChatSession {
   document_count?: number;
   initial_response?: string | null;
   message?: string;
+  session_name?: string;
+}
+
+export interface ChatSessionUpdateRequest {
+  session_name?: string;
+}
+
+export interface ChatSessionStats {
+  message_count: number;
+  total_tokens?: number;
+  created_at: string;
+  last_activity: string;
 }
 
 export interface ChatMessage {
@@ -119,6 +221,13 @@ export interface Citation {
   end_char?: number;
 }
 
+// Text surrounding a citation's snippet in its source
+export interface CitationContext {
+  before: string;
+  after: string;
+  full_context: string;
+}
+
 export interface CitationRequest {
   document_id: string;
   page_number?: number;
@@ -164,3 +273,22 @@ export interface RequestOptions {
   signal?: AbortSignal;
   headers?: Record<string, string>;
 }
+
+// Byte-level progress of an upload request
+export interface UploadProgressEvent {
+  loaded: number;
+  total: number;
+  // Smoothed transfer rate; 0 until enough samples are collected
+  bytesPerSecond: number;
+  // Seconds until the body is fully sent, null while unknown
+  etaSeconds: number | null;
+}
+
+export interface UploadOptions extends RequestOptions {
+  onUploadProgress?: (progress: UploadProgressEvent) => void;
+}
+
+export interface DocumentUploadOptions extends UploadOptions {
+  // SHA-256 of the file, stored in the document's metadata as content_hash
+  contentHash?: string;
+}
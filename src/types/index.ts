@@ -1,3 +1,5 @@
+import type { DocumentState } from "../utils/documentLifecycle";
+
 export interface Document {
   id: string;
   name: string;
@@ -5,7 +7,18 @@ export interface Document {
   uploadedAt: Date;
   url?: string;
   totalPages?: number;
-  status: "uploading" | "processing" | "ready" | "error" | "processed";
+  status: DocumentState;
+  // Status as reported by the backend, shown when it is not recognised
+  backendStatus?: string;
+  // SHA-256 of the uploaded file, used to spot duplicate uploads
+  contentHash?: string;
+  // Why the last processing run failed
+  processingError?: string;
+  processingStage?: string;
+  chunkCount?: number;
+  processingTimeMs?: number;
+  // Everything else the backend knows about the document
+  metadata?: Record<string, unknown>;
 }
 
 export interface ChatMessage {
@@ -21,6 +34,30 @@ export interface Citation {
   page: number;
   text: string;
   documentId: string;
+  startChar?: number;
+  endChar?: number;
+  confidence?: number;
+  documentTitle?: string;
+  citationType?: string;
+  // Source text around the snippet, when the answer included it
+  contextBefore?: string;
+  contextAfter?: string;
+}
+
+export type CitationVerdict = "verified" | "weak" | "unsupported";
+
+// How well the source backs one citation of an answer
+export interface CitationVerification {
+  verdict: CitationVerdict;
+  accuracyScore: number;
+  relevanceScore: number;
+  issues: string[];
+}
+
+export interface MessageVerification {
+  // Keyed by citation id
+  citations: Record<string, CitationVerification>;
+  overallAccuracy: number;
 }
 
 export interface ChatSession {
@@ -29,12 +66,53 @@ export interface ChatSession {
   messages: ChatMessage[];
   createdAt: Date;
   updatedAt: Date;
+  name?: string;
+  messageCount?: number;
+}
+
+export interface Notebook {
+  id: string;
+  name: string;
+  documentIds: string[];
+  sessionId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Actions offered for text selected in the PDF viewer
+export type PassageAction = "ask" | "explain" | "summarize" | "related";
+
+export interface SelectedPassage {
+  text: string;
+  page: number;
+  documentId: string;
+  documentTitle?: string;
+}
+
+// A passage action forwarded from the viewer to the chat
+export interface PassageRequest {
+  id: string;
+  action: PassageAction;
+  passage: SelectedPassage;
+}
+
+export interface Bookmark {
+  id: string;
+  documentId: string;
+  page: number;
+  name: string;
+  createdAt: Date;
 }
 
 export interface UploadProgress {
   percentage: number;
   status: "idle" | "uploading" | "processing" | "complete" | "error";
   message?: string;
+  // Byte-level transfer details while the file is being sent
+  loadedBytes?: number;
+  totalBytes?: number;
+  bytesPerSecond?: number;
+  etaSeconds?: number | null;
 }
 
 export interface PDFViewerState {
@@ -45,10 +123,39 @@ export interface PDFViewerState {
 }
 
 // UI Component Props
-export interface PDFUploaderProps {
-  onFileUpload: (file: File) => void;
-  isUploading: boolean;
+export type UploadQueueStatus =
+  | "queued"
+  | "checking"
+  | "duplicate"
+  | "uploading"
+  | "processing"
+  | "ready"
+  | "failed";
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  status: UploadQueueStatus;
+  // Transfer progress while uploading
   progress?: UploadProgress;
+  documentId?: string;
+  // Known once the preflight check has opened the file
+  pageCount?: number;
+  // Existing document with the same content, when the upload is held back
+  duplicateOf?: Pick<Document, "id" | "name">;
+  error?: string;
+  // Failed uploads can be retried; rejected files and failed processing cannot
+  canRetry: boolean;
+}
+
+export interface PDFUploaderProps {
+  onFilesUpload: (files: File[]) => void;
+  queue?: UploadQueueItem[];
+  onRetryItem?: (id: string) => void;
+  onUploadAnyway?: (id: string) => void;
+  onRemoveItem?: (id: string) => void;
+  onOpenItem?: (item: UploadQueueItem) => void;
+  onClearFinished?: () => void;
 }
 
 export interface ChatInterfaceProps {
@@ -65,4 +172,8 @@ export interface PDFViewerProps {
   scale: number;
   onScaleChange: (scale: number) => void;
   onDocumentLoad?: (numPages: number) => void;
+  highlightedCitation?: Citation | null;
+  // Pages cited in the current chat session, marked in the thumbnail rail
+  citedPages?: number[];
+  onPassageAction?: (action: PassageAction, passage: SelectedPassage) => void;
 }
@@ -13,6 +13,19 @@ export const getApiConfig = (): ApiConfig => {
   };
 };
 
+// WebSocket address for an API endpoint, or for a URL handed out by the
+// server (resolved against the API origin). http(s) becomes ws(s).
+export const getWebSocketUrl = (endpoint: string, serverUrl?: string) => {
+  const { baseUrl } = getApiConfig();
+  const url = serverUrl
+    ? new URL(serverUrl, new URL(baseUrl, window.location.href))
+    : new URL(`${baseUrl}${endpoint}`, window.location.href);
+
+  if (url.protocol === "https:") url.protocol = "wss:";
+  else if (url.protocol === "http:") url.protocol = "ws:";
+  return url.toString();
+};
+
 export const isDevelopment = (): boolean => {
   return import.meta.env.VITE_NODE_ENV === "development" || import.meta.env.DEV;
 };
@@ -26,9 +39,26 @@ export const API_ENDPOINTS = {
   // Documents
   DOCUMENTS: "/documents",
   DOCUMENT_UPLOAD: "/documents/upload",
+  DOCUMENT_UPLOAD_LARGE: "/documents/upload-large",
   DOCUMENT_BY_ID: (id: string) => `/documents/${id}`,
   DOCUMENT_CONTENT: (id: string) => `/documents/${id}/content`,
 
+  // Background processing
+  DOCUMENT_PROCESSING_STATUS: (id: string) =>
+    `/documents/${id}/processing-status`,
+  PROCESSING_JOB_STATUS: (documentId: string, jobId: string) =>
+    `/documents/${documentId}/processing-status/${jobId}`,
+  PROCESSING_PROGRESS_SOCKET: (jobId: string) =>
+    `/documents/progress/${jobId}`,
+
+  // Resumable uploads
+  UPLOAD_SESSIONS: "/documents/uploads",
+  UPLOAD_SESSION_BY_ID: (uploadId: string) => `/documents/uploads/${uploadId}`,
+  UPLOAD_CHUNK: (uploadId: string, offset: number) =>
+    `/documents/uploads/${uploadId}/chunks?offset=${offset}`,
+  UPLOAD_COMPLETE: (uploadId: string) =>
+    `/documents/uploads/${uploadId}/complete`,
+
   // Chat
   CHAT_SESSIONS: "/chat/sessions",
   CHAT_SESSION_BY_ID: (id: string) => `/chat/sessions/${id}`,
@@ -14,6 +14,19 @@ export class ApiException extends Error {
   }
 }
 
+export const createCancelledError = (): ApiException =>
+  new ApiException(
+    {
+      error: "Request Cancelled",
+      message: "The request was cancelled.",
+      type: "CancelledError",
+    },
+    0
+  );
+
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof ApiException && error.type === "CancelledError";
+
 export const handleApiError = (error: unknown): ApiException => {
   // Network or fetch errors
   if (error instanceof TypeError && error.message.includes("fetch")) {
@@ -79,6 +92,8 @@ export const getErrorMessage = (error: ApiException): string => {
       return "Unable to connect to the server. Please check your internet connection and try again.";
     case "TimeoutError":
       return "The request timed out. Please try again.";
+    case "CancelledError":
+      return "The request was cancelled.";
     case "ValidationError":
       return error.message || "Please check your input and try again.";
     case "DocumentError":
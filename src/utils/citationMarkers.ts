@@ -0,0 +1,74 @@
+/**
+ * Inline citation markers such as [1] or [2, 3] in answer text. Numbers count
+ * from 1 in the order of the message's citations.
+ */
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Attribute carrying the citation number on rendered markers
+export const CITATION_MARKER_PROPERTY = "dataCitation";
+
+// The parts of a Markdown syntax tree node this plugin looks at
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: Record<string, unknown>;
+}
+
+const createMarker = (number: number): MarkdownNode => ({
+  type: "citationMarker",
+  data: {
+    hName: "sup",
+    hProperties: { [CITATION_MARKER_PROPERTY]: number },
+    hChildren: [{ type: "text", value: String(number) }],
+  },
+});
+
+/**
+ * Split a text node around its citation markers. Groups naming a citation
+ * the message does not have are left as plain text.
+ */
+const splitMarkers = (value: string, count: number): MarkdownNode[] => {
+  const nodes: MarkdownNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(MARKER_PATTERN)) {
+    const numbers = match[1].split(",").map((part) => Number(part.trim()));
+    if (numbers.some((number) => number < 1 || number > count)) continue;
+
+    if (match.index > lastIndex) {
+      nodes.push({ type: "text", value: value.slice(lastIndex, match.index) });
+    }
+    nodes.push(...numbers.map(createMarker));
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex === 0) return [{ type: "text", value }];
+  if (lastIndex < value.length) {
+    nodes.push({ type: "text", value: value.slice(lastIndex) });
+  }
+  return nodes;
+};
+
+const replaceMarkers = (node: MarkdownNode, count: number) => {
+  // Markers inside link text would nest interactive elements
+  if (!node.children || node.type === "link") return;
+
+  node.children = node.children.flatMap((child) => {
+    if (child.type === "text" && child.value) {
+      return splitMarkers(child.value, count);
+    }
+    replaceMarkers(child, count);
+    return [child];
+  });
+};
+
+/**
+ * remark plugin turning citation markers into <sup> elements that carry the
+ * citation number, for a message with `count` citations
+ */
+export const remarkCitationMarkers =
+  ({ count }: { count: number }) =>
+  (tree: MarkdownNode) => {
+    if (count > 0) replaceMarkers(tree, count);
+  };
@@ -4,18 +4,60 @@ export const ACCEPTED_FILE_TYPES = {
 
 export const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
 
+export const UPLOAD_CONFIG = {
+  // Files above this size use the resumable chunked upload
+  CHUNKED_UPLOAD_THRESHOLD: 10 * 1024 * 1024, // 10MB
+  CHUNK_SIZE: 5 * 1024 * 1024, // 5MB
+  CHUNK_MAX_RETRIES: 3,
+  CHUNK_TIMEOUT_MS: 120000,
+  MAX_CONCURRENT_UPLOADS: 3,
+  // Preflight limits checked in the browser before uploading
+  MAX_PAGE_COUNT: 2000,
+  PREFLIGHT_SAMPLE_PAGES: 5,
+  MIN_TEXT_CHARACTERS: 20,
+  HASH_CHUNK_SIZE: 4 * 1024 * 1024, // 4MB
+  // Unfinished uploads older than this are not resumed
+  RESUME_TTL_MS: 24 * 60 * 60 * 1000,
+} as const;
+
+export const PROCESSING_SOCKET_CONFIG = {
+  HEARTBEAT_INTERVAL_MS: 30000,
+  // Reconnect when nothing arrives this long after a ping
+  HEARTBEAT_TIMEOUT_MS: 10000,
+  RECONNECT_BASE_DELAY_MS: 1000,
+  RECONNECT_MAX_DELAY_MS: 30000,
+  // After this many failed reconnects, stay on polling
+  MAX_RECONNECT_ATTEMPTS: 6,
+  POLL_INTERVAL_MS: 2000,
+} as const;
+
+export const LIBRARY_CONFIG = {
+  PAGE_SIZE: 25,
+} as const;
+
 export const PDF_VIEWER_CONFIG = {
   DEFAULT_SCALE: 1.0,
   MIN_SCALE: 0.5,
   MAX_SCALE: 3.0,
   SCALE_STEP: 0.25,
+  THUMBNAIL_WIDTH: 96,
+  WORKER_SRC: "/pdf.worker.min.js",
 } as const;
 
 export const CHAT_CONFIG = {
   MAX_MESSAGE_LENGTH: 1000,
+  MAX_PASSAGE_LENGTH: 2000,
   TYPING_DELAY: 100,
 } as const;
 
+export const CITATION_VALIDATION_CONFIG = {
+  // Accuracy and relevance both at least this high count as verified
+  VERIFIED_MIN_SCORE: 0.75,
+  // Below this a citation counts as unsupported even if marked valid
+  WEAK_MIN_SCORE: 0.4,
+  AUTO_VALIDATE_STORAGE_KEY: "notebooklm.citations.autoValidate",
+} as const;
+
 export const UI_MESSAGES = {
   UPLOAD: {
     DRAG_DROP: "Click or drag and drop your file here",
@@ -23,6 +65,12 @@ export const UI_MESSAGES = {
     PROCESSING: "Processing document...",
     SUCCESS: "Document ready!",
     ERROR: "Upload failed. Please try again.",
+    FINISHING: "Finishing upload...",
+    CANCELLED: "Upload cancelled",
+  },
+  PROCESSING: {
+    CANCELLED: "Processing cancelled",
+    REPROCESS_STARTED: "Reprocessing started",
   },
   CHAT: {
     PLACEHOLDER: "Ask about the document...",
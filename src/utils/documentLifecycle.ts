@@ -0,0 +1,155 @@
+/**
+ * Document lifecycle: the states a document moves through in the UI, how
+ * backend statuses and processing stages map onto them, and which changes
+ * between states are allowed.
+ */
+import type { ProcessingJobStatus } from "../types/api";
+
+export const DOCUMENT_STATES = [
+  "uploading",
+  "processing",
+  "ready",
+  "error",
+  // The backend reported a status this client does not know
+  "unknown",
+] as const;
+
+export type DocumentState = (typeof DOCUMENT_STATES)[number];
+
+/**
+ * Backend document statuses and the state each one means
+ */
+const BACKEND_STATUS_STATES = {
+  uploading: "uploading",
+  uploaded: "uploading",
+  pending: "uploading",
+  processing: "processing",
+  parsing: "processing",
+  chunking: "processing",
+  vectorizing: "processing",
+  indexing: "processing",
+  processed: "ready",
+  completed: "ready",
+  complete: "ready",
+  ready: "ready",
+  error: "error",
+  failed: "error",
+} as const satisfies Record<string, DocumentState>;
+
+export type BackendDocumentStatus = keyof typeof BACKEND_STATUS_STATES;
+
+const JOB_STATUS_STATES: Record<ProcessingJobStatus, DocumentState> = {
+  pending: "processing",
+  processing: "processing",
+  completed: "ready",
+  failed: "error",
+  cancelled: "error",
+};
+
+/**
+ * Changes between states that can really happen; anything else comes from a
+ * stale response arriving out of order
+ */
+const ALLOWED_TRANSITIONS: Record<DocumentState, readonly DocumentState[]> = {
+  uploading: ["processing", "ready", "error"],
+  processing: ["ready", "error"],
+  // Reprocessing
+  ready: ["processing"],
+  // Retrying or reprocessing
+  error: ["uploading", "processing"],
+  // Whatever the backend says next is better than not knowing
+  unknown: ["uploading", "processing", "ready", "error"],
+};
+
+const STATE_LABELS: Record<DocumentState, string> = {
+  uploading: "Uploading",
+  processing: "Processing",
+  ready: "Ready",
+  error: "Failed",
+  unknown: "Unknown status",
+};
+
+/**
+ * Processing stages reported while a document is processed, with the share
+ * of the work done once the stage is reached
+ */
+const PROCESSING_STAGES = {
+  upload_complete: { label: "Upload Complete", progress: 10 },
+  uploaded: { label: "Uploaded", progress: 10 },
+  text_extraction: { label: "Extracting Text", progress: 20 },
+  parsing_started: { label: "Parsing Document", progress: 30 },
+  chunking: { label: "Creating Chunks", progress: 50 },
+  vectorization: { label: "Generating Embeddings", progress: 70 },
+  indexing: { label: "Building Index", progress: 85 },
+  complete: { label: "Complete", progress: 100 },
+  // Legacy stage names
+  processed: { label: "Complete", progress: 100 },
+  completed: { label: "Complete", progress: 100 },
+  parsing_failed: { label: "Parsing Failed", progress: 0 },
+  error: { label: "Error", progress: 0 },
+} as const satisfies Record<string, { label: string; progress: number }>;
+
+export type ProcessingStage = keyof typeof PROCESSING_STAGES;
+
+const isKnownStatus = (status: string): status is BackendDocumentStatus =>
+  Object.hasOwn(BACKEND_STATUS_STATES, status);
+
+const isKnownStage = (stage: string): stage is ProcessingStage =>
+  Object.hasOwn(PROCESSING_STAGES, stage);
+
+/**
+ * Map a backend document status to a lifecycle state. Unrecognised statuses
+ * become "unknown" rather than being guessed at.
+ */
+export const toDocumentState = (status: string): DocumentState => {
+  const normalized = status.toLowerCase();
+  if (isKnownStatus(normalized)) return BACKEND_STATUS_STATES[normalized];
+
+  // Failure variants such as "parsing_failed" or "embedding_error"
+  if (normalized.includes("error") || normalized.includes("fail")) {
+    return "error";
+  }
+
+  console.warn("⚠️ Unknown document status from backend:", status);
+  return "unknown";
+};
+
+export const jobStatusToDocumentState = (
+  status: ProcessingJobStatus
+): DocumentState => JOB_STATUS_STATES[status];
+
+export const canTransition = (from: DocumentState, to: DocumentState) =>
+  from === to || ALLOWED_TRANSITIONS[from].includes(to);
+
+/**
+ * The state to move to, keeping the current one when the change is not
+ * allowed
+ */
+export const nextDocumentState = (
+  current: DocumentState,
+  next: DocumentState
+): DocumentState => {
+  if (canTransition(current, next)) return next;
+  console.warn(`⚠️ Ignoring document state change ${current} -> ${next}`);
+  return current;
+};
+
+export const isInProgressState = (state: DocumentState) =>
+  state === "uploading" || state === "processing";
+
+// "unknown" counts as settled: polling cannot make sense of it either
+export const isTerminalState = (state: DocumentState) =>
+  state === "ready" || state === "error" || state === "unknown";
+
+export const getDocumentStateLabel = (state: DocumentState) =>
+  STATE_LABELS[state];
+
+export const getProcessingStageLabel = (stage: string): string => {
+  const normalized = stage.toLowerCase();
+  return isKnownStage(normalized) ? PROCESSING_STAGES[normalized].label : stage;
+};
+
+export const getProcessingStageProgress = (stage?: string): number => {
+  const normalized = stage?.toLowerCase() ?? "";
+  return isKnownStage(normalized) ? PROCESSING_STAGES[normalized].progress : 0;
+};
@@ -0,0 +1,62 @@
+import { UPLOAD_CONFIG } from "./constants";
+import type {
+  FileHashMessage,
+  FileHashRequest,
+} from "../workers/fileHash.worker";
+
+interface HashFileOptions {
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+/**
+ * SHA-256 of a file as a hex string, computed in a worker so hashing a
+ * large PDF doesn't block the page
+ */
+export const hashFile = (
+  file: File,
+  { signal, onProgress }: HashFileOptions = {}
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL("../workers/fileHash.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException("Hashing was cancelled", "AbortError"));
+    };
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (event: MessageEvent<FileHashMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.loaded, message.total);
+      } else if (message.type === "done") {
+        finish();
+        resolve(message.hash);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "File hashing failed"));
+    };
+
+    const request: FileHashRequest = {
+      file,
+      chunkSize: UPLOAD_CONFIG.HASH_CHUNK_SIZE,
+    };
+    worker.postMessage(request);
+  });
@@ -1,6 +1,6 @@
 // Helper functions for the Google NotebookLM clone
 
-import { ACCEPTED_FILE_TYPES } from './constants';
+import { ACCEPTED_FILE_TYPES, MAX_FILE_SIZE } from './constants';
 
 export const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes';
@@ -21,7 +21,13 @@ export const validateFile = (file: File): { isValid: boolean; error?: string } =
     };
   }
 
-  // No file size restrictions - allow any size PDF
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      isValid: false,
+      error: `File is larger than the ${formatFileSize(MAX_FILE_SIZE)} limit.`,
+    };
+  }
+
   return { isValid: true };
 };
 
@@ -43,6 +49,21 @@ export const formatTimestamp = (date: Date): string => {
   return 'Just now';
 };
 
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.ceil(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${secs}s`;
+  return `${secs}s`;
+};
+
+// Format a 0-1 score as a whole percentage
+export const formatPercent = (score: number): string =>
+  `${Math.round(score * 100)}%`;
+
 export const truncateText = (text: string, maxLength: number): string => {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength) + '...';
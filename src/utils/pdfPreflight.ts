@@ -0,0 +1,113 @@
+import { pdfjs } from "react-pdf";
+import { MAX_FILE_SIZE, PDF_VIEWER_CONFIG, UPLOAD_CONFIG } from "./constants";
+import { formatFileSize } from "./helpers";
+
+export type PreflightIssueCode =
+  | "too-large"
+  | "empty"
+  | "corrupt"
+  | "password-protected"
+  | "no-text"
+  | "too-many-pages";
+
+export interface PreflightIssue {
+  code: PreflightIssueCode;
+  message: string;
+}
+
+export interface PreflightResult {
+  ok: boolean;
+  pageCount?: number;
+  issues: PreflightIssue[];
+}
+
+const fail = (code: PreflightIssueCode, message: string): PreflightResult => ({
+  ok: false,
+  issues: [{ code, message }],
+});
+
+// pdf.js reports load failures through exception names
+const getErrorName = (error: unknown) =>
+  error && typeof error === "object" && "name" in error
+    ? String(error.name)
+    : "";
+
+/**
+ * Open a PDF in the browser before uploading it and report anything the
+ * backend would fail on: damaged files, passwords, image-only scans and
+ * size or page limits.
+ */
+export const preflightPdf = async (file: File): Promise<PreflightResult> => {
+  if (file.size === 0) {
+    return fail("empty", "The file is empty.");
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return fail(
+      "too-large",
+      `The file is ${formatFileSize(file.size)}; the limit is ${formatFileSize(
+        MAX_FILE_SIZE
+      )}.`
+    );
+  }
+
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = PDF_VIEWER_CONFIG.WORKER_SRC;
+  }
+
+  const loadingTask = pdfjs.getDocument({
+    data: new Uint8Array(await file.arrayBuffer()),
+  });
+
+  try {
+    const pdf = await loadingTask.promise;
+    const pageCount = pdf.numPages;
+
+    if (pageCount > UPLOAD_CONFIG.MAX_PAGE_COUNT) {
+      return {
+        ...fail(
+          "too-many-pages",
+          `The PDF has ${pageCount} pages; the limit is ${UPLOAD_CONFIG.MAX_PAGE_COUNT}.`
+        ),
+        pageCount,
+      };
+    }
+
+    // Sample the first pages; scans have no text layer at all
+    let textLength = 0;
+    const samplePages = Math.min(pageCount, UPLOAD_CONFIG.PREFLIGHT_SAMPLE_PAGES);
+    for (let pageNumber = 1; pageNumber <= samplePages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      textLength += content.items
+        .map((item) => ("str" in item ? item.str : ""))
+        .join("")
+        .replace(/\s/g, "").length;
+      page.cleanup();
+      if (textLength >= UPLOAD_CONFIG.MIN_TEXT_CHARACTERS) break;
+    }
+
+    if (textLength < UPLOAD_CONFIG.MIN_TEXT_CHARACTERS) {
+      return {
+        ...fail(
+          "no-text",
+          "The PDF has no selectable text. It looks like a scanned document; run OCR on it and upload again."
+        ),
+        pageCount,
+      };
+    }
+
+    return { ok: true, pageCount, issues: [] };
+  } catch (error) {
+    if (getErrorName(error) === "PasswordException") {
+      return fail(
+        "password-protected",
+        "The PDF is password-protected. Remove the password and upload again."
+      );
+    }
+
+    console.warn("⚠️ PDF preflight could not open file:", error);
+    return fail("corrupt", "The file is damaged or is not a valid PDF.");
+  } finally {
+    loadingTask.destroy();
+  }
+};
@@ -0,0 +1,228 @@
+/**
+ * Utilities for locating and highlighting passages in the pdf.js text layer
+ */
+
+import type { TextItem, TextMarkedContent } from "react-pdf";
+import type { Citation } from "../types";
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface HighlightRange extends TextRange {
+  className: string;
+}
+
+export interface PageTextIndex {
+  text: string;
+  // Range of each text content item inside `text`, null for marked content
+  itemRanges: (TextRange | null)[];
+}
+
+export const CITATION_HIGHLIGHT_CLASS = "citation-highlight";
+export const FIND_MATCH_CLASS = "find-match";
+export const FIND_ACTIVE_MATCH_CLASS = "find-match-active";
+
+// Minimum share of snippet words that must appear in a window for a fuzzy match
+const FUZZY_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Concatenate the text items of a page, remembering where each item starts
+ */
+export const buildPageTextIndex = (
+  items: (TextItem | TextMarkedContent)[]
+): PageTextIndex => {
+  let text = "";
+  const itemRanges = items.map((item) => {
+    if (!("str" in item)) return null;
+
+    const start = text.length;
+    text += item.str;
+    const range = { start, end: text.length };
+    if (item.hasEOL) text += "\n";
+    return range;
+  });
+
+  return { text, itemRanges };
+};
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace, keeping a map from
+ * every normalized character back to its offset in the original text
+ */
+const normalizeWithMap = (text: string): { value: string; map: number[] } => {
+  let value = "";
+  const map: number[] = [];
+  let pendingSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i].toLowerCase();
+    if (/[\p{L}\p{N}]/u.test(char)) {
+      if (pendingSpace && value.length > 0) {
+        value += " ";
+        map.push(i);
+      }
+      pendingSpace = false;
+      value += char;
+      map.push(i);
+    } else {
+      pendingSpace = true;
+    }
+  }
+
+  return { value, map };
+};
+
+/**
+ * Find a text snippet inside page text, tolerating differences in case,
+ * punctuation, hyphenation and line breaks
+ */
+export const findSnippetRange = (
+  text: string,
+  snippet: string
+): TextRange | null => {
+  // Snippets are often truncated with ellipses - match the longest fragment
+  const fragment = snippet
+    .split(/\.{3}|…/)
+    .map((part) => part.trim())
+    .sort((a, b) => b.length - a.length)[0];
+  if (!fragment) return null;
+
+  const page = normalizeWithMap(text);
+  const needle = normalizeWithMap(fragment).value;
+  if (!needle || !page.value) return null;
+
+  const exactIndex = page.value.indexOf(needle);
+  if (exactIndex !== -1) {
+    return {
+      start: page.map[exactIndex],
+      end: page.map[exactIndex + needle.length - 1] + 1,
+    };
+  }
+
+  // Fall back to the window of page words sharing the most snippet words
+  const needleWords = needle.split(" ");
+  const pageWords: { word: string; start: number; end: number }[] = [];
+  const wordPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(page.value)) !== null) {
+    pageWords.push({
+      word: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  const windowSize = Math.min(needleWords.length, pageWords.length);
+  if (windowSize === 0) return null;
+
+  const wanted = new Set(needleWords);
+  let best = { score: 0, index: -1 };
+  for (let i = 0; i + windowSize <= pageWords.length; i++) {
+    let score = 0;
+    for (let j = i; j < i + windowSize; j++) {
+      if (wanted.has(pageWords[j].word)) score++;
+    }
+    if (score > best.score) best = { score, index: i };
+  }
+
+  if (
+    best.index === -1 ||
+    best.score / needleWords.length < FUZZY_MATCH_THRESHOLD
+  ) {
+    return null;
+  }
+
+  const first = pageWords[best.index];
+  const last = pageWords[best.index + windowSize - 1];
+  return { start: page.map[first.start], end: page.map[last.end - 1] + 1 };
+};
+
+/**
+ * Find every literal, case-insensitive occurrence of a query in page text.
+ * Whitespace in the query matches any run of whitespace, including the line
+ * breaks between text items.
+ */
+export const findAllMatches = (text: string, query: string): TextRange[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const pattern = new RegExp(
+    trimmed
+      .split(/\s+/)
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("\\s+"),
+    "gi"
+  );
+
+  const ranges: TextRange[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return ranges;
+};
+
+/**
+ * Resolve the character range of a citation on its page, preferring the
+ * backend offsets and falling back to fuzzy matching the snippet
+ */
+export const resolveCitationRange = (
+  citation: Citation,
+  pageText: PageTextIndex
+): TextRange | null => {
+  const { startChar, endChar } = citation;
+  if (
+    startChar !== undefined &&
+    endChar !== undefined &&
+    startChar >= 0 &&
+    endChar > startChar &&
+    endChar <= pageText.text.length
+  ) {
+    return { start: startChar, end: endChar };
+  }
+
+  return citation.text ? findSnippetRange(pageText.text, citation.text) : null;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Render a single text item as HTML, wrapping the parts covered by the given
+ * highlight ranges in <mark> elements
+ */
+export const renderHighlightedItem = (
+  str: string,
+  itemRange: TextRange | null,
+  highlights: HighlightRange[]
+): string => {
+  if (!itemRange || highlights.length === 0) return escapeHtml(str);
+
+  const overlapping = highlights
+    .filter((h) => h.start < itemRange.end && h.end > itemRange.start)
+    .sort((a, b) => a.start - b.start);
+  if (overlapping.length === 0) return escapeHtml(str);
+
+  let html = "";
+  let cursor = 0;
+  for (const highlight of overlapping) {
+    const from = Math.max(highlight.start - itemRange.start, cursor);
+    const to = Math.min(highlight.end - itemRange.start, str.length);
+    if (to <= from) continue;
+
+    html += escapeHtml(str.slice(cursor, from));
+    html += `<mark class="${highlight.className}">${escapeHtml(
+      str.slice(from, to)
+    )}</mark>`;
+    cursor = to;
+  }
+
+  return html + escapeHtml(str.slice(cursor));
+};
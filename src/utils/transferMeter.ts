@@ -0,0 +1,29 @@
+import type { UploadProgressEvent } from "../types/api";
+
+// Upload speed is averaged over this window so short stalls don't swing the ETA
+const SPEED_WINDOW_MS = 3000;
+
+export const createTransferMeter = () => {
+  const samples: { time: number; loaded: number }[] = [];
+
+  return (loaded: number, total: number): UploadProgressEvent => {
+    const now = performance.now();
+    samples.push({ time: now, loaded });
+    while (samples.length > 2 && now - samples[1].time >= SPEED_WINDOW_MS) {
+      samples.shift();
+    }
+
+    const first = samples[0];
+    const elapsedSeconds = (now - first.time) / 1000;
+    const bytesPerSecond =
+      elapsedSeconds > 0 ? (loaded - first.loaded) / elapsedSeconds : 0;
+
+    return {
+      loaded,
+      total,
+      bytesPerSecond,
+      etaSeconds:
+        bytesPerSecond > 0 ? (total - loaded) / bytesPerSecond : null,
+    };
+  };
+};
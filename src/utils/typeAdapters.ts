@@ -3,6 +3,7 @@ import type {
   ChatMessage as ApiChatMessage,
   Citation as ApiCitation,
   ChatSession as ApiChatSession,
+  UploadProgressEvent,
 } from "../types/api";
 
 import type {
@@ -10,7 +11,17 @@ import type {
   ChatMessage as UIChatMessage,
   Citation as UICitation,
   ChatSession as UIChatSession,
+  UploadProgress,
 } from "../types";
+import type {
+  SearchResult,
+  SynthesizedCitation,
+} from "../services/advancedSearchService";
+import type { Citation as AnalysisCitation } from "../services/citationsService";
+import { toDocumentState } from "./documentLifecycle";
+
+const readNumber = (value: unknown) =>
+  typeof value === "number" ? value : undefined;
 
 // Convert API Document to UI Document
 export const adaptApiDocumentToUI = (apiDocument: ApiDocument): UIDocument => {
@@ -43,49 +54,22 @@ export const adaptApiDocumentToUI = (apiDocument: ApiDocument): UIDocument => {
     name: apiDocument.filename,
     size: apiDocument.file_size,
     uploadedAt: uploadDate,
-    status: adaptDocumentStatus(apiDocument.status),
+    status: toDocumentState(apiDocument.status),
+    backendStatus: apiDocument.status,
     totalPages: apiDocument.page_count,
     url: pdfUrl, // Add PDF download URL for viewer
+    contentHash:
+      typeof apiDocument.metadata?.content_hash === "string"
+        ? apiDocument.metadata.content_hash
+        : undefined,
+    processingError: apiDocument.processing_error || undefined,
+    processingStage: apiDocument.processing_stage,
+    chunkCount: readNumber(apiDocument.metadata?.chunk_count),
+    processingTimeMs: readNumber(apiDocument.metadata?.processing_time_ms),
+    metadata: apiDocument.metadata,
   };
 };
 
-// Convert API Document status to UI status
-const adaptDocumentStatus = (
-  apiStatus: string
-): "uploading" | "processing" | "ready" | "error" => {
-  console.log('🔍 Adapting document status from backend:', apiStatus);
-  
-  // Handle all possible statuses from backend
-  const status = apiStatus.toLowerCase();
-  
-  // Statuses that should show as uploading
-  if (['pending', 'uploaded', 'uploading'].includes(status)) {
-    console.log('📤 Status mapped to: uploading');
-    return "uploading";
-  }
-  
-  // Statuses that should show as processing
-  if (['processing', 'chunking', 'vectorizing', 'indexing', 'parsing'].includes(status)) {
-    console.log('🔄 Status mapped to: processing');
-    return "processing";
-  }
-  
-  // Statuses that mean the document is ready
-  if (['processed', 'completed', 'ready', 'complete'].includes(status)) {
-    console.log('✅ Status mapped to: ready');
-    return "ready";
-  }
-  
-  // Any error status
-  if (status.includes('error') || status.includes('fail')) {
-    console.log('❌ Status mapped to: error');
-    return "error";
-  }
-  
-  console.warn('⚠️ Unknown status, defaulting to error:', apiStatus);
-  return "error";
-};
-
 // Convert API ChatMessage to UI ChatMessage
 export const adaptApiChatMessageToUI = (
   apiMessage: ApiChatMessage
@@ -104,12 +88,162 @@ export const adaptApiChatMessageToUI = (
   };
 };
 
+// Convert a stored API ChatMessage (one question/answer turn) to UI messages
+export const adaptApiChatTurnToUI = (
+  apiMessage: ApiChatMessage
+): UIChatMessage[] => {
+  const assistantMessage = adaptApiChatMessageToUI(apiMessage);
+  if (!apiMessage.user_message) return [assistantMessage];
+
+  const userMessage: UIChatMessage = {
+    id: `${assistantMessage.id}-user`,
+    content: apiMessage.user_message,
+    role: "user",
+    timestamp: assistantMessage.timestamp,
+  };
+  return [userMessage, assistantMessage];
+};
+
 // Convert API Citation to UI Citation
 export const adaptApiCitationToUI = (apiCitation: ApiCitation): UICitation => ({
   id: apiCitation.id,
   page: apiCitation.page_number,
   text: apiCitation.text_snippet,
   documentId: apiCitation.document_id,
+  startChar: apiCitation.start_char,
+  endChar: apiCitation.end_char,
+  confidence: apiCitation.confidence_score,
+});
+
+// Prefix of ids made up on the client for passages the backend has no
+// citation record of, so there is no context to look up for them
+const SYNTHETIC_CITATION_ID_PREFIX = "synthetic:";
+
+export const isSyntheticCitationId = (id: string) =>
+  id.startsWith(SYNTHETIC_CITATION_ID_PREFIX);
+
+// Short FNV-1a hash, enough to tell passages on the same page apart
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Whitespace and case differ between the text layer and extracted text
+const normalizePassageText = (text: string) =>
+  text.replace(/\s+/g, " ").trim().toLowerCase();
+
+const toPassageKey = (documentId: string, page: number, text: string) =>
+  `${documentId}:${page}:${hashText(normalizePassageText(text))}`;
+
+// Identifies a cited passage regardless of the id it was cited under
+export const getCitationPassageKey = (citation: UICitation) =>
+  toPassageKey(citation.documentId, citation.page, citation.text);
+
+// Id for a passage without a citation record, the same for the same passage
+// wherever it turns up
+export const createSyntheticCitationId = (
+  documentId: string,
+  page: number,
+  text: string
+) => `${SYNTHETIC_CITATION_ID_PREFIX}${toPassageKey(documentId, page, text)}`;
+
+// Convert an advanced search hit to a UI Citation
+export const adaptSearchResultToCitation = (
+  result: SearchResult
+): UICitation => ({
+  id: createSyntheticCitationId(
+    result.document_id,
+    result.page_number || 1,
+    result.content
+  ),
+  page: result.page_number || 1,
+  text: result.content,
+  documentId: result.document_id,
+  documentTitle: result.document_title,
+  confidence: result.similarity_score,
+});
+
+// Convert a synthesized answer's source to a UI Citation. Sources without an
+// id get one derived from the passage, so the same passage keeps the same id
+// in every answer.
+export const adaptSynthesizedCitationToUI = (
+  citation: SynthesizedCitation
+): UICitation => ({
+  id:
+    citation.id ||
+    createSyntheticCitationId(
+      citation.document_id,
+      citation.page_number || 1,
+      citation.snippet || ""
+    ),
+  page: citation.page_number || 1,
+  text: citation.snippet || citation.document_title || "",
+  documentId: citation.document_id,
+  documentTitle: citation.document_title,
+  confidence: citation.relevance_score,
+  citationType: citation.citation_type,
+  contextBefore: citation.context_before,
+  contextAfter: citation.context_after,
+});
+
+// Convert byte-level upload progress to the uploader's progress state
+export const adaptUploadProgressEvent = (
+  event: UploadProgressEvent
+): UploadProgress => ({
+  percentage:
+    event.total > 0 ? Math.round((event.loaded / event.total) * 100) : 0,
+  status: "uploading",
+  loadedBytes: event.loaded,
+  totalBytes: event.total,
+  bytesPerSecond: event.bytesPerSecond,
+  etaSeconds: event.etaSeconds,
+});
+
+// Convert a citation from the citations service to a UI Citation
+export const adaptAnalysisCitationToUI = (
+  citation: AnalysisCitation
+): UICitation => ({
+  id: citation.citation_id,
+  page: citation.page_number || 1,
+  text: citation.text_content,
+  documentId: citation.document_id,
+  documentTitle: citation.document_title || undefined,
+  startChar: citation.start_position,
+  endChar: citation.end_position,
+  confidence: citation.confidence_score,
+  citationType: citation.citation_type,
+});
+
+const ANALYSIS_CITATION_TYPES: AnalysisCitation["citation_type"][] = [
+  "direct_quote",
+  "paraphrase",
+  "reference",
+  "supporting_evidence",
+];
+
+// Convert UI Citation to the citations service's format, e.g. for validation
+export const adaptUICitationToAnalysis = (
+  citation: UICitation
+): AnalysisCitation => ({
+  citation_id: citation.id,
+  document_id: citation.documentId,
+  document_title: citation.documentTitle ?? "",
+  page_number: citation.page,
+  start_position: citation.startChar ?? 0,
+  end_position: citation.endChar ?? 0,
+  text_content: citation.text,
+  context: [citation.contextBefore, citation.text, citation.contextAfter]
+    .filter(Boolean)
+    .join(""),
+  confidence_score: citation.confidence ?? 0,
+  citation_type:
+    ANALYSIS_CITATION_TYPES.find((type) => type === citation.citationType) ??
+    "supporting_evidence",
+  metadata: {},
 });
 
 // Convert API ChatSession to UI ChatSession
@@ -122,6 +256,8 @@ export const adaptApiChatSessionToUI = (
   messages: messages.map(adaptApiChatMessageToUI),
   createdAt: new Date(apiSession.created_at),
   updatedAt: new Date(apiSession.updated_at || apiSession.last_activity_at || apiSession.created_at),
+  name: apiSession.session_name,
+  messageCount: apiSession.message_count,
 });
 
 // Convert UI types back to API types (for requests)
@@ -0,0 +1,37 @@
+import { Sha256 } from "../utils/sha256";
+
+export interface FileHashRequest {
+  file: File;
+  chunkSize: number;
+}
+
+export type FileHashMessage =
+  | { type: "progress"; loaded: number; total: number }
+  | { type: "done"; hash: string }
+  | { type: "error"; message: string };
+
+const post = (message: FileHashMessage) => self.postMessage(message);
+
+// Hash the file a slice at a time so large PDFs never sit in memory whole
+self.onmessage = async (event: MessageEvent<FileHashRequest>) => {
+  const { file, chunkSize } = event.data;
+  const hash = new Sha256();
+
+  try {
+    for (let offset = 0; offset < file.size; offset += chunkSize) {
+      const chunk = await file.slice(offset, offset + chunkSize).arrayBuffer();
+      hash.update(new Uint8Array(chunk));
+      post({
+        type: "progress",
+        loaded: Math.min(offset + chunkSize, file.size),
+        total: file.size,
+      });
+    }
+    post({ type: "done", hash: hash.digestHex() });
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};